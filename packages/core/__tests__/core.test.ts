@@ -1,5 +1,970 @@
+import { Master, Worker, Registry, MemoryStorage, KeyValueStorage, FileStorage, PriorityQueue, DependencyGraph, TokenBucket, STATUS, WorkerEventMap, TransitionError, ISignal } from '../src';
+
+class EchoWorker extends Worker<{ name: string }> {
+  public get size() {
+    return 1;
+  }
+
+  public handle() {
+    this.emit('run');
+  }
+
+  public abort() {
+    this.emit('cancel');
+  }
+}
+
+class HangWorker extends Worker<{}> {
+  public aborted = 0;
+
+  public get size() {
+    return 1;
+  }
+
+  public handle() {
+    this.emit('run');
+  }
+
+  public abort() {
+    this.aborted += 1;
+    this.emit('cancel');
+  }
+
+  public done() {
+    this.emit('complete');
+  }
+}
+
+class SuspendableWorker extends HangWorker {
+  public suspends = 0;
+  public continues = 0;
+
+  protected suspend() {
+    this.suspends += 1;
+  }
+
+  protected continue() {
+    this.continues += 1;
+    this.emit('run');
+  }
+}
+
+class FlakyWorker extends HangWorker {
+  public handle() {
+    this.emit('run');
+
+    const error = new Error('Bad Gateway') as any;
+    error.status = (this.options as any).status;
+    this.emit('error', error);
+  }
+}
+
+class ProgressWorker extends HangWorker {
+  public get size() {
+    return 100;
+  }
+
+  public tick(progress: number) {
+    this.setProgress(progress);
+    this.emit('progress');
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const waitFor = (worker: Worker, status: STATUS) => new Promise(resolve => {
+  if (worker.status === status) return resolve();
+
+  worker.on('update:status', function check() {
+    if (worker.status !== status) return ;
+
+    worker.off('update:status', check);
+    resolve();
+  });
+});
+
 describe('@zoupdown/core', () => {
   it('works', () => {
     expect(true).toEqual(true);
   });
-})
\ No newline at end of file
+
+  describe('export / import', () => {
+    const registry = new Registry().register('echo', EchoWorker);
+
+    it('round trip workers through storage', async () => {
+      const storage = new MemoryStorage();
+      const master = new Master({ registry });
+      const a = await master.create(EchoWorker, { name: 'a' });
+      const b = await master.create(EchoWorker, { name: 'b' });
+      await master.startup();
+      await master.execute(b.id);
+      await master.shutdown();
+
+      const snapshot = await master.export(storage);
+      expect(snapshot.version).toEqual(1);
+      expect(snapshot.workers.map(e => e.name)).toEqual(['echo', 'echo']);
+
+      const another = new Master({ registry });
+      const workers = await another.import(storage);
+      expect(workers.map(e => e.id)).toEqual([a.id, b.id]);
+      expect(workers.map(e => e.options)).toEqual([{ name: 'a' }, { name: 'b' }]);
+      expect(workers[0].status).toEqual(STATUS.INITIALED);
+      expect(workers[1].status).toEqual(STATUS.PENDING);
+    });
+
+    it('restore RUNNING workers as PAUSED', async () => {
+      const master = new Master({ registry, restoreRunningAs: STATUS.PAUSED });
+      const snapshot = {
+        version: 1,
+        createdAt: +new Date(),
+        workers: [{ name: 'echo', id: 'x', options: { name: 'x' }, status: STATUS.RUNNING, progress: 0.5, priority: 0, createdAt: 0, updatedAt: 0 }],
+      };
+
+      const [worker] = await master.import(snapshot);
+      expect(worker.status).toEqual(STATUS.PAUSED);
+      expect(worker.progress).toEqual(0.5);
+    });
+
+    it('throws on unregistered worker class or version', async () => {
+      const master = new Master({ registry: new Registry() });
+      await master.create(EchoWorker, { name: 'a' });
+
+      await expect(master.export()).rejects.toThrow(/not registered/);
+      await expect(master.import({ version: 0, createdAt: 0, workers: [] })).rejects.toThrow(/Unsupported/);
+    });
+
+    it('save, load and clear by key value and file storages', async () => {
+      const snapshot = { version: 1, createdAt: 0, workers: [] };
+      const path = require('path').join(require('os').tmpdir(), `zoupdown-${process.pid}.json`);
+      // structured clone store, such as IndexedDB wrappers
+      const values: Record<string, any> = {};
+      const store = {
+        getItem: async (key: string) => values[key],
+        setItem: async (key: string, value: any) => values[key] = value,
+        removeItem: async (key: string) => delete values[key],
+      };
+
+      const storages = [
+        new KeyValueStorage(localStorage, { key: 'uploads' }),
+        new KeyValueStorage(store, { serialize: false }),
+        new FileStorage({ path }),
+      ];
+
+      for (const storage of storages) {
+        expect(await storage.load()).toBe(null);
+
+        await storage.save(snapshot);
+        expect(await storage.load()).toEqual(snapshot);
+
+        await storage.clear();
+        expect(await storage.load()).toBe(null);
+      }
+
+      expect(localStorage.getItem('uploads')).toBe(null);
+    });
+  });
+
+  describe('priority', () => {
+    it('dequeue by priority, FIFO for ties', () => {
+      const queue = new PriorityQueue<string>();
+      queue.enqueue('a');
+      queue.enqueue('b', 1);
+      queue.enqueue('c');
+      queue.enqueue('d', 1);
+
+      expect(queue.toArray()).toEqual(['b', 'd', 'a', 'c']);
+
+      queue.update('c', 2);
+      expect(queue.toArray()).toEqual(['c', 'b', 'd', 'a']);
+
+      queue.update('c', 0);
+      expect(queue.toArray()).toEqual(['b', 'd', 'a', 'c']);
+
+      expect(queue.remove('d')).toBe(true);
+      expect(queue.dequeue()).toEqual('b');
+      expect(queue.size()).toEqual(2);
+    });
+
+    it('reorder pending workers', async () => {
+      const master = new Master();
+      const batch = await Promise.all([1, 2, 3].map(i => master.create(EchoWorker, { name: `${i}` })));
+      const urgent = await master.create(EchoWorker, { name: 'urgent' }, { priority: 10 });
+
+      await master.startup();
+      await master.setConcurrency(0);
+      await master.executeAll();
+      expect(master.queue.PENDING.toArray()).toEqual([urgent.id, ...batch.map(e => e.id)]);
+
+      await master.setPriority(batch[2].id, 20);
+      expect(master.queue.PENDING.toArray()).toEqual([batch[2].id, urgent.id, batch[0].id, batch[1].id]);
+
+      await master.shutdown();
+    });
+  });
+
+  describe('timeout', () => {
+    it('abort worker when running exceeds the timeout', async () => {
+      const master = new Master({ timeout: 50 });
+      const worker = await master.create(HangWorker, {}) as HangWorker;
+      const overridden = await master.create(HangWorker, {}, { timeout: 5000 });
+      const events: string[] = [];
+      master.on('timeout', () => events.push('timeout'));
+      master.on('cancel', () => events.push('cancel'));
+
+      await master.startup();
+      await master.executeAll();
+      await new Promise(resolve => worker.on('finish', resolve));
+
+      expect(worker.status).toEqual(STATUS.TIMEOUT);
+      expect(worker.aborted).toEqual(1);
+      expect(events).toEqual(['timeout']);
+      expect(overridden.status).toEqual(STATUS.RUNNING);
+
+      await master.shutdown();
+      await master.cancel(overridden.id);
+    });
+
+    it('reject negative timeout', async () => {
+      await expect(new Master().setTimeout(-1)).rejects.toThrow();
+    });
+  });
+
+  describe('pause / resume', () => {
+    it('free the slot when paused, and re-queue when resumed', async () => {
+      const master = new Master({ concurrency: 1 });
+      const a = await master.create(HangWorker, {}) as HangWorker;
+      const b = await master.create(HangWorker, {}) as HangWorker;
+
+      await master.startup();
+      await master.execute(a.id);
+      await master.execute(b.id);
+      await waitFor(a, STATUS.RUNNING);
+
+      await master.pause(a.id);
+      expect(a.status).toEqual(STATUS.PAUSED);
+      expect(a.aborted).toEqual(1);
+      await waitFor(b, STATUS.RUNNING);
+
+      await master.resumeAll();
+      expect(a.status).toEqual(STATUS.PENDING);
+
+      b.done();
+      await waitFor(a, STATUS.RUNNING);
+      expect((master as any).running).toEqual(1);
+
+      await master.shutdown();
+      await master.cancel(a.id);
+      expect((master as any).running).toEqual(0);
+    });
+
+    it('suspend and continue when implemented', async () => {
+      const master = new Master();
+      const worker = await master.create(SuspendableWorker, {}) as SuspendableWorker;
+
+      await master.startup();
+      await master.execute(worker.id);
+      await waitFor(worker, STATUS.RUNNING);
+
+      await master.pause(worker.id);
+      expect(worker.suspends).toEqual(1);
+      expect(worker.aborted).toEqual(0);
+
+      await master.resume(worker.id);
+      await waitFor(worker, STATUS.RUNNING);
+      expect(worker.continues).toEqual(1);
+
+      await master.shutdown();
+      await master.pause(worker.id);
+      await master.cancel(worker.id);
+      expect(worker.status).toEqual(STATUS.CANCELLED);
+      expect((master as any).running).toEqual(0);
+    });
+  });
+
+  describe('retry', () => {
+    it('retry with backoff until attempts run out', async () => {
+      const master = new Master({ retry: { attempts: 3, delay: 10, jitter: 0 } });
+      const worker = await master.create(FlakyWorker, { status: 502 });
+      const retries: number[] = [];
+      master.on('retry', (error, w) => retries.push(w!.attempts));
+
+      await master.startup();
+      await master.execute(worker.id);
+      await new Promise(resolve => master.on('error', () => worker.attempts === 3 && resolve()));
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(retries).toEqual([1, 2]);
+      expect(worker.status).toEqual(STATUS.ERROR);
+      expect((worker as FlakyWorker).toJSON().attempts).toEqual(3);
+
+      await master.shutdown();
+    });
+
+    it('skip errors which are not retryable', async () => {
+      const master = new Master({ retry: { attempts: 3, delay: 10 } });
+      const retryable = (error: any) => error.status >= 500;
+      const worker = await master.create(FlakyWorker, { status: 404 }, { retry: { attempts: 3, delay: 10, retryable } });
+      const retries: number[] = [];
+      master.on('retry', (error, w) => retries.push(w!.attempts));
+
+      await master.startup();
+      await master.execute(worker.id);
+      await waitFor(worker, STATUS.ERROR);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(retries).toEqual([]);
+      expect(worker.attempts).toEqual(1);
+
+      await master.shutdown();
+    });
+
+    it('count the first run of worker paused before run', async () => {
+      const master = new Master({ concurrency: 1, retry: { attempts: 2, delay: 10 } });
+      const busy = await master.create(HangWorker, {}) as HangWorker;
+      const worker = await master.create(FlakyWorker, { status: 502 });
+      let runs = 0;
+      worker.on('run', () => runs += 1);
+
+      await master.startup();
+      await master.execute(busy.id);
+      await master.execute(worker.id);
+      expect(worker.status).toEqual(STATUS.PENDING);
+
+      await master.pause(worker.id);
+      await master.resume(worker.id);
+      busy.done();
+      await new Promise(resolve => master.on('error', () => worker.attempts === 2 && resolve()));
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(runs).toEqual(2);
+      expect(worker.status).toEqual(STATUS.ERROR);
+
+      await master.shutdown();
+    });
+  });
+
+  describe('schedule', () => {
+    it('dispatch immediately when pending, finished or concurrency changed', async () => {
+      const master = new Master({ concurrency: 1 });
+      const [a, b, c] = await Promise.all([1, 2, 3].map(() => master.create(HangWorker, {}))) as HangWorker[];
+
+      await master.startup();
+      await master.executeAll();
+      await waitFor(a, STATUS.RUNNING);
+      expect(b.status).toEqual(STATUS.PENDING);
+
+      a.done();
+      await waitFor(b, STATUS.RUNNING);
+      expect(c.status).toEqual(STATUS.PENDING);
+
+      await master.setConcurrency(2);
+      await waitFor(c, STATUS.RUNNING);
+      expect((master as any).running).toEqual(2);
+
+      await master.shutdown();
+      await master.cancelAll();
+    });
+  });
+
+  describe('dependency', () => {
+    it('detect cycles', () => {
+      const graph = new DependencyGraph();
+      graph.add('a');
+      graph.add('b', ['a']);
+      graph.add('c', ['b']);
+
+      expect(() => graph.add('a', ['c'])).toThrow(/Circular/);
+      expect(() => graph.add('d', ['d'])).toThrow(/Circular/);
+      expect(graph.dependents('a')).toEqual(['b']);
+      expect(graph.toJSON().edges).toEqual([['b', 'a'], ['c', 'b']]);
+    });
+
+    it('wait for dependencies, and cancel dependents when dependency cancelled', async () => {
+      const master = new Master({ concurrency: 3 });
+      const manifest = await master.create(HangWorker, {}) as HangWorker;
+      const thumbnail = await master.create(HangWorker, {}, { dependsOn: [manifest.id] }) as HangWorker;
+      const finalize = await master.create(HangWorker, {}, { dependsOn: [thumbnail.id] });
+      const runnable: string[] = [];
+      master.on('runnable', (error, worker) => runnable.push(worker!.id));
+
+      await expect(master.create(HangWorker, {}, { dependsOn: ['unknown'] })).rejects.toThrow(/Invalid/);
+
+      await master.startup();
+      await master.executeAll();
+      await waitFor(manifest, STATUS.RUNNING);
+      expect(thumbnail.status).toEqual(STATUS.WAITING);
+      expect(finalize.status).toEqual(STATUS.WAITING);
+
+      manifest.done();
+      await waitFor(thumbnail, STATUS.RUNNING);
+      expect(runnable).toEqual([thumbnail.id]);
+
+      await master.cancel(thumbnail.id);
+      await waitFor(finalize, STATUS.CANCELLED);
+
+      await master.shutdown();
+    });
+
+    it('fail dependents when dependency failed finally', async () => {
+      const master = new Master({ onDependencyFailure: 'error' });
+      const upload = await master.create(FlakyWorker, { status: 500 });
+      const notify = await master.create(HangWorker, {}, { dependsOn: [upload.id] });
+
+      await master.startup();
+      await master.execute(notify.id);
+      await master.execute(upload.id);
+      await waitFor(notify, STATUS.ERROR);
+
+      expect(notify.attempts).toEqual(0);
+
+      await master.shutdown();
+    });
+  });
+
+  describe('throttle', () => {
+    it('limit bytes per second, shared fairly', async () => {
+      const bucket = new TokenBucket(1000);
+      const finished: string[] = [];
+      const startedAt = Date.now();
+
+      await bucket.consume(1000);
+      await Promise.all([
+        bucket.consume(200).then(() => finished.push('small')),
+        bucket.consume(400).then(() => finished.push('large')),
+      ]);
+
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(550);
+      expect(finished).toEqual(['small', 'large']);
+    });
+
+    it('release waiters when unlimited at runtime', async () => {
+      const master = new Master({ maxBytesPerSecond: 10 });
+      const waiting = master.throttle.consume(10000);
+
+      await master.setMaxBytesPerSecond(0);
+      await waiting;
+
+      expect(master.throttle.rate).toEqual(0);
+    });
+  });
+
+  describe('capacity', () => {
+    it('reject new workers when full', async () => {
+      const master = new Master({ capacity: 1 });
+      const rejected: string[] = [];
+      master.on('reject', (error, worker) => rejected.push(worker!.id));
+
+      await master.create(HangWorker, {});
+      await expect(master.create(HangWorker, {})).rejects.toThrow(/Pool is full/);
+      expect(rejected.length).toEqual(1);
+    });
+
+    it('evict the oldest finished worker, never PENDING or RUNNING', async () => {
+      const master = new Master({ capacity: 3, capacityPolicy: 'evict-oldest', concurrency: 1 });
+      const evicted: string[] = [];
+      master.on('evict', (error, worker) => evicted.push(worker!.id));
+
+      const a = await master.create(HangWorker, {}) as HangWorker;
+      const b = await master.create(HangWorker, {}) as HangWorker;
+      const c = await master.create(HangWorker, {}) as HangWorker;
+      await master.startup();
+      await master.execute(a.id);
+      await waitFor(a, STATUS.RUNNING);
+      await master.execute(b.id);
+      a.done();
+      await waitFor(b, STATUS.RUNNING);
+      await master.execute(c.id);
+
+      // a COMPLETE, b RUNNING, c PENDING
+      const d = await master.create(HangWorker, {});
+      expect(evicted).toEqual([a.id]);
+      expect(await master.get(a.id)).toBeNull();
+      expect(await master.get(d.id)).toBe(d);
+
+      await expect(master.create(HangWorker, {})).rejects.toThrow(/Pool is full/);
+      await master.shutdown();
+    });
+
+    it('remove COMPLETE workers after ttl', async () => {
+      const master = new Master({ capacity: 2, capacityPolicy: 'ttl', ttl: 50 });
+      const evicted: string[] = [];
+      master.on('evict', (error, worker) => evicted.push(worker!.id));
+
+      const a = await master.create(HangWorker, {}) as HangWorker;
+      await master.startup();
+      await master.execute(a.id);
+      await waitFor(a, STATUS.RUNNING);
+      a.done();
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(evicted).toEqual([a.id]);
+      expect(await master.get(a.id)).toBeNull();
+      await master.shutdown();
+    });
+  });
+
+  describe('query', () => {
+    it('list and count by status, type, filter, sort and page', async () => {
+      const master = new Master({ concurrency: 1 });
+      const a = await master.create(HangWorker, {}, { priority: 1 });
+      const b = await master.create(EchoWorker, { name: 'b' });
+      const c = await master.create(EchoWorker, { name: 'c' }, { priority: 2 });
+      const d = await master.create(HangWorker, {});
+      await master.setConcurrency(0);
+      await master.startup();
+      await master.execute(a.id);
+      await master.execute(b.id);
+      await master.execute(c.id);
+
+      // PENDING in queue order
+      expect((await master.list({ status: STATUS.PENDING })).map(e => e.id)).toEqual([c.id, a.id, b.id]);
+      expect((await master.list({ type: EchoWorker })).map(e => e.id).sort()).toEqual([b.id, c.id].sort());
+      expect(await master.count({ status: [STATUS.PENDING, STATUS.INITIALED] })).toEqual(4);
+      expect(await master.count({ type: HangWorker, status: STATUS.PENDING })).toEqual(1);
+      expect(await master.count({ filter: e => e.priority > 0 })).toEqual(2);
+
+      const page = await master.list({ sort: 'createdAt', order: 'desc', offset: 1, limit: 2 });
+      expect(page.length).toEqual(2);
+      expect(page.every(e => [a.id, b.id, c.id, d.id].includes(e.id))).toBe(true);
+
+      await master.shutdown();
+    });
+
+    it('stats', async () => {
+      const master = new Master({ concurrency: 1 });
+      const a = await master.create(HangWorker, {});
+      const b = await master.create(HangWorker, {});
+      await master.create(HangWorker, {});
+      await master.startup();
+      await master.execute(a.id);
+      await master.execute(b.id);
+      await waitFor(a, STATUS.RUNNING);
+
+      const stats = await master.stats();
+      expect(stats.total).toEqual(3);
+      expect(stats.status[STATUS.RUNNING]).toEqual(1);
+      expect(stats.status[STATUS.PENDING]).toEqual(1);
+      expect(stats.status[STATUS.INITIALED]).toEqual(1);
+      expect(stats.running).toEqual(1);
+      expect(stats.concurrency).toEqual(1);
+      expect(stats.queue).toEqual(1);
+
+      await master.shutdown();
+    });
+  });
+
+  describe('progress', () => {
+    it('measure speed since RUNNING in sliding window', async () => {
+      const worker = new ProgressWorker({});
+      expect(worker.speed).toEqual(0);
+
+      await worker.pending();
+      await worker.run();
+      await sleep(50);
+      worker.tick(0.5);
+
+      // 50 bytes in about 50ms
+      expect(worker.speed).toBeGreaterThan(200);
+      expect(worker.speed).toBeLessThan(1001);
+
+      await worker.pause();
+      expect(worker.speed).toEqual(0);
+    });
+
+    it('aggregate progress of master, including PENDING workers', async () => {
+      const master = new Master({ concurrency: 1 });
+      const events: any[] = [];
+      master.on('progress', (error, worker, workers, data) => events.push(data));
+
+      const a = await master.create(ProgressWorker, {}) as ProgressWorker;
+      const b = await master.create(ProgressWorker, {}) as ProgressWorker;
+      await master.create(ProgressWorker, {});
+      await master.startup();
+      await master.execute(a.id);
+      await master.execute(b.id);
+      await waitFor(a, STATUS.RUNNING);
+      await sleep(20);
+      a.tick(0.5);
+
+      const progress = await master.progress();
+      expect(progress.total).toEqual(200);
+      expect(progress.loaded).toEqual(50);
+      expect(progress.progress).toEqual(0.25);
+      expect(progress.speed).toBeGreaterThan(0);
+      expect(progress.estimatedTimeToArrival).toBeGreaterThan(0);
+      expect(progress.estimatedTimeToArrival).toBeLessThan(Infinity);
+      expect(events[0].loaded).toEqual(50);
+
+      const batch = await master.progress({ status: STATUS.PENDING });
+      expect(batch.total).toEqual(100);
+      expect(batch.estimatedTimeToArrival).toEqual(Infinity);
+
+      await master.shutdown();
+    });
+
+    it('keep overall progress of events up to date by status changes', async () => {
+      const master = new Master({ concurrency: 2 });
+      const events: any[] = [];
+      master.on('progress', (error, worker, workers, data) => events.push(data));
+
+      const a = await master.create(ProgressWorker, {}) as ProgressWorker;
+      const b = await master.create(ProgressWorker, {}) as ProgressWorker;
+      const c = await master.create(ProgressWorker, {}) as ProgressWorker;
+      await master.startup();
+      await master.executeAll();
+      await waitFor(b, STATUS.RUNNING);
+
+      a.tick(0.5);
+      expect(events.pop()).toMatchObject({ total: 300, loaded: 50 });
+
+      await master.cancel(a.id);
+      b.tick(0.5);
+      expect(events.pop()).toMatchObject({ total: 200, loaded: 50 });
+
+      b.done();
+      await waitFor(c, STATUS.RUNNING);
+      c.tick(0.25);
+      expect(events.pop()).toMatchObject({ total: 200, loaded: 75 });
+
+      await master.remove(b.id);
+      c.tick(0.5);
+      expect(events.pop()).toMatchObject({ total: 100, loaded: 50, progress: 0.5 });
+      expect(await master.progress()).toMatchObject({ total: 100, loaded: 50 });
+
+      await master.shutdown();
+    });
+  });
+
+  describe('hooks', () => {
+    it('run master hooks then worker hooks in order', async () => {
+      const calls: string[] = [];
+      const master = new Master()
+        .use({ beforeRun: async () => { calls.push('master:1'); } })
+        .use({ beforeRun: () => { calls.push('master:2'); }, onFinish: () => { calls.push('finish'); } });
+
+      const worker = await master.create(HangWorker, {}, {
+        hooks: { beforeRun: async () => { calls.push('worker'); } },
+      }) as HangWorker;
+
+      await master.startup();
+      await master.execute(worker.id);
+      await waitFor(worker, STATUS.RUNNING);
+      worker.done();
+
+      expect(calls).toEqual(['master:1', 'master:2', 'worker', 'finish']);
+      await master.shutdown();
+    });
+
+    it('veto or fail a run', async () => {
+      const errors: Error[] = [];
+      const master = new Master().use({ onError: (error) => { errors.push(error); } });
+      const vetoed = await master.create(HangWorker, {}, { hooks: { beforeRun: async () => false } });
+      const failed = await master.create(HangWorker, {}, {
+        hooks: { beforeRun: async () => { throw new Error('token expired'); } },
+      });
+
+      await master.startup();
+      await master.execute(vetoed.id);
+      await master.execute(failed.id);
+      await waitFor(vetoed as HangWorker, STATUS.CANCELLED);
+      await waitFor(failed as HangWorker, STATUS.ERROR);
+
+      expect(errors.map(e => e.message)).toEqual(['token expired']);
+      await master.shutdown();
+    });
+  });
+
+  describe('queues', () => {
+    it('schedule each queue by its own concurrency', async () => {
+      const master = new Master({ concurrency: 1, queues: { media: { concurrency: 1 } } });
+      const a = await master.create(HangWorker, {}, { queue: 'media' }) as HangWorker;
+      const b = await master.create(HangWorker, {}, { queue: 'media' }) as HangWorker;
+      const avatar = await master.create(HangWorker, {}) as HangWorker;
+
+      await master.startup();
+      await master.executeAll();
+      await waitFor(a, STATUS.RUNNING);
+      await waitFor(avatar, STATUS.RUNNING);
+      expect(b.status).toEqual(STATUS.PENDING);
+
+      const stats = await master.stats();
+      expect(stats.queues.media).toEqual({ concurrency: 1, running: 1, pending: 1, paused: false });
+      expect(stats.queues.default).toEqual({ concurrency: 1, running: 1, pending: 0, paused: false });
+      expect(await master.count({ queue: 'media' })).toEqual(2);
+
+      // paused queue dispatches nothing
+      await master.pauseQueue('media');
+      a.done();
+      await sleep(10);
+      expect(b.status).toEqual(STATUS.PENDING);
+
+      await master.resumeQueue('media');
+      await waitFor(b, STATUS.RUNNING);
+
+      await master.pauseAll('media');
+      expect(b.status).toEqual(STATUS.PAUSED);
+      expect(avatar.status).toEqual(STATUS.RUNNING);
+
+      await master.shutdown();
+    });
+
+    it('cap all queues by maxConcurrency', async () => {
+      const master = new Master({ maxConcurrency: 1, queues: { media: { concurrency: 2 } } });
+      const a = await master.create(HangWorker, {}, { queue: 'media' }) as HangWorker;
+      const b = await master.create(HangWorker, {}) as HangWorker;
+
+      await master.startup();
+      await master.executeAll();
+      await waitFor(a, STATUS.RUNNING);
+      expect(b.status).toEqual(STATUS.PENDING);
+
+      a.done();
+      await waitFor(b, STATUS.RUNNING);
+      await master.shutdown();
+    });
+
+    it('throw on unknown queue', async () => {
+      const master = new Master();
+
+      await expect(master.create(HangWorker, {}, { queue: 'media' })).rejects.toThrow(/Invalid Queue/);
+      await master.createQueue('media', { concurrency: 1 });
+      await expect(master.createQueue('media')).rejects.toThrow(/already exists/);
+      await expect(master.executeAll('avatar')).rejects.toThrow(/Invalid Queue/);
+    });
+  });
+
+  describe('shutdown', () => {
+    const setup = async () => {
+      const master = new Master({ concurrency: 1 });
+      const a = await master.create(HangWorker, {}) as HangWorker;
+      const b = await master.create(HangWorker, {}) as HangWorker;
+
+      await master.startup();
+      await master.executeAll();
+      await waitFor(a, STATUS.RUNNING);
+
+      return { master, a, b };
+    };
+
+    it('drain running workers, pending ones stay', async () => {
+      const { master, a, b } = await setup();
+      let resolved = false;
+
+      const shutdown = master.shutdown({ mode: 'drain' }).then(() => resolved = true);
+      await sleep(10);
+      expect(resolved).toBe(false);
+
+      a.done();
+      await shutdown;
+      expect(a.status).toEqual(STATUS.COMPLETE);
+      expect(b.status).toEqual(STATUS.PENDING);
+
+      // dispatched after next startup
+      await master.startup();
+      await waitFor(b, STATUS.RUNNING);
+      await master.shutdown();
+    });
+
+    it('cancel running workers', async () => {
+      const { master, a, b } = await setup();
+
+      await master.shutdown({ mode: 'cancel' });
+      expect(a.status).toEqual(STATUS.CANCELLED);
+      expect(b.status).toEqual(STATUS.PENDING);
+    });
+
+    it('fall back to cancel after deadline', async () => {
+      const { master, a } = await setup();
+
+      await master.shutdown({ mode: 'drain', deadline: 20 });
+      expect(a.status).toEqual(STATUS.CANCELLED);
+    });
+
+    it('onEmpty and onIdle', async () => {
+      const { master, a, b } = await setup();
+      const events: string[] = [];
+
+      master.onEmpty().then(() => events.push('empty'));
+      master.onIdle().then(() => events.push('idle'));
+
+      a.done();
+      await waitFor(b, STATUS.RUNNING);
+      await sleep(0);
+      expect(events).toEqual(['empty']);
+
+      b.done();
+      await sleep(0);
+      expect(events).toEqual(['empty', 'idle']);
+
+      await master.shutdown();
+    });
+  });
+
+  describe('signal', () => {
+    // stops by signal only, no abort() override
+    class SignalWorker extends Worker<{}> {
+      public runs: ISignal[] = [];
+
+      public get size() {
+        return 1;
+      }
+
+      public handle() {
+        this.runs.push(this.signal);
+        this.emit('run');
+      }
+    }
+
+    it('abort the signal of current run when cancelled or paused', async () => {
+      const worker = new SignalWorker({});
+
+      await worker.pending();
+      await worker.run();
+      await worker.pause();
+      expect(worker.runs[0].aborted).toBe(true);
+
+      await worker.resume();
+      await worker.run();
+      expect(worker.runs[1].aborted).toBe(false);
+
+      await worker.cancel();
+      expect(worker.runs[1].aborted).toBe(true);
+      expect(worker.status).toEqual(STATUS.CANCELLED);
+    });
+
+    it('cancel a batch by external signal', async () => {
+      const master = new Master({ concurrency: 1 });
+      const controller = new AbortController();
+      const a = await master.create(SignalWorker, {}, { signal: controller.signal }) as SignalWorker;
+      const b = await master.create(SignalWorker, {}, { signal: controller.signal }) as SignalWorker;
+      const c = await master.create(SignalWorker, {}, { signal: controller.signal }) as SignalWorker;
+      const other = await master.create(SignalWorker, {}) as SignalWorker;
+
+      await master.startup();
+      await master.execute(a.id);
+      await master.execute(b.id);
+      await waitFor(a, STATUS.RUNNING);
+
+      controller.abort();
+      await waitFor(a, STATUS.CANCELLED);
+      await waitFor(b, STATUS.CANCELLED);
+      await waitFor(c, STATUS.CANCELLED);
+      expect(a.runs[0].aborted).toBe(true);
+
+      // aborted batch will not run again
+      await master.executeAll();
+      expect(c.status).toEqual(STATUS.CANCELLED);
+      await waitFor(other, STATUS.RUNNING);
+
+      await master.shutdown();
+    });
+  });
+
+  describe('transition', () => {
+    it('reject illegal transition with typed error', () => {
+      const worker = new HangWorker({});
+
+      let error: any = null;
+      try {
+        (worker as any).setStatus(STATUS.COMPLETE);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(TransitionError);
+      expect([error.id, error.from, error.to]).toEqual([worker.id, STATUS.INITIALED, STATUS.COMPLETE]);
+      expect(worker.status).toEqual(STATUS.INITIALED);
+    });
+
+    it('remove the exact worker from pending and running', async () => {
+      const master = new Master({ concurrency: 2 });
+      const [a, b, c, d] = await Promise.all([1, 2, 3, 4].map(() => master.create(HangWorker, {}))) as HangWorker[];
+
+      await master.startup();
+      await master.executeAll();
+      await waitFor(b, STATUS.RUNNING);
+
+      // not the head of either queue
+      await master.cancel(d.id);
+      b.done();
+      await waitFor(c, STATUS.RUNNING);
+
+      expect(master.queue[STATUS.RUNNING].toArray()).toEqual([a.id, c.id]);
+      expect(master.queue[STATUS.PENDING].toArray()).toEqual([]);
+
+      await master.shutdown();
+    });
+
+    it('record history in toJSON', async () => {
+      const worker = new HangWorker({});
+
+      await worker.pending();
+      await worker.run();
+      worker.done();
+
+      const { history } = worker.toJSON();
+      expect(history.map(e => [e.from, e.to])).toEqual([
+        [STATUS.INITIALED, STATUS.PENDING],
+        [STATUS.PENDING, STATUS.RUNNING],
+        [STATUS.RUNNING, STATUS.COMPLETE],
+      ]);
+      expect(history[2].at).toBe(worker.updatedAt);
+    });
+  });
+
+  describe('events', () => {
+    it('once, and off unknown listener keeps others', async () => {
+      const master = new Master();
+      const events: string[] = [];
+      const listener = () => events.push('listener');
+
+      master.on('update', listener);
+      master.off('update', () => {});
+      master.once('update', () => events.push('once'));
+
+      master.emit('update');
+      master.emit('update');
+      expect(events).toEqual(['listener', 'once', 'listener']);
+
+      master.off('update', listener);
+      master.emit('update');
+      expect(events.length).toEqual(3);
+    });
+
+    it('carry typed data for custom worker events', () => {
+      interface TickEvents extends WorkerEventMap {
+        tick: number;
+      }
+
+      class TickWorker extends Worker<{}, TickEvents> {
+        public get size() {
+          return 1;
+        }
+
+        public handle() {
+          this.emit('run');
+        }
+
+        public abort() {
+          this.emit('cancel');
+        }
+
+        public tick(n: number) {
+          this.emit('tick', null, n);
+        }
+      }
+
+      const worker = new TickWorker({});
+      const received: number[] = [];
+      const listener = (error: Error | null, w: TickWorker, data: number) => received.push(data);
+
+      worker.once('tick', () => received.push(-1));
+      worker.on('tick', listener);
+      worker.tick(1);
+      worker.off('tick', listener);
+      worker.tick(2);
+
+      expect(received).toEqual([-1, 1]);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+export interface IClock {
+  /**
+   * Current time, ms
+   */
+  now(): number;
+
+  /**
+   * Call fn after ms
+   *
+   * @param fn callback
+   * @param ms delay, ms
+   */
+  setTimeout(fn: () => void, ms: number): any;
+
+  /**
+   * Cancel timer returned by setTimeout
+   *
+   * @param timer timer
+   */
+  clearTimeout(timer: any): void;
+}
+
+/**
+ * Real time, by Date and global timers
+ */
+export const systemClock: IClock = {
+  now: () => Date.now(),
+  setTimeout: (fn, ms) => setTimeout(fn, ms),
+  clearTimeout: (timer) => clearTimeout(timer),
+};
+
+let current: IClock = systemClock;
+
+/**
+ * Clock honored by all timers of master, worker, pool, deadline and throttle
+ *  swapped by useClock(), such as a virtual clock in tests
+ */
+export const clock: IClock = {
+  now: () => current.now(),
+  setTimeout: (fn, ms) => current.setTimeout(fn, ms),
+  clearTimeout: (timer) => current.clearTimeout(timer),
+};
+
+/**
+ * Use another clock, null to restore the system clock
+ *  timers set before keep running on the old clock
+ *
+ * @param another clock
+ */
+export function useClock(another: IClock | null) {
+  current = another || systemClock;
+}
@@ -0,0 +1,56 @@
+import { clock } from './clock';
+
+export interface IDeadline {
+  /**
+   * Start or continue counting
+   */
+  start(): void;
+
+  /**
+   * Pause counting, elapsed time is kept
+   */
+  pause(): void;
+
+  /**
+   * Stop counting
+   */
+  clear(): void;
+}
+
+/**
+ * Deadline only counts the time between start and pause
+ */
+export class Deadline implements IDeadline {
+  private timer: any = null;
+  private startedAt = 0;
+  private elapsed = 0;
+
+  /**
+   * @param limit time limit, ms
+   * @param onExpire called when time exceeds the limit
+   */
+  constructor(public readonly limit: number, private readonly onExpire: () => void) {}
+
+  public start() {
+    if (this.timer) return ;
+
+    this.startedAt = clock.now();
+    this.timer = clock.setTimeout(() => {
+      this.timer = null;
+      this.onExpire();
+    }, Math.max(this.limit - this.elapsed, 0));
+  }
+
+  public pause() {
+    if (!this.timer) return ;
+
+    clock.clearTimeout(this.timer);
+    this.timer = null;
+    this.elapsed += clock.now() - this.startedAt;
+  }
+
+  public clear() {
+    clock.clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
@@ -0,0 +1,49 @@
+import { Pool } from './pool';
+import { IWorker } from './worker';
+import { MasterProgress } from './query';
+
+/**
+ * Worker Events, event name => data type
+ *  subclass extends it for custom events, such as:
+ *    interface UploadWorkerEvents extends WorkerEventMap { 'hash:progress': number }
+ */
+export interface WorkerEventMap {
+  run: void;
+  progress: void;
+  complete: void;
+  error: void;
+  timeout: void;
+  cancel: void;
+  pause: void;
+  resume: void;
+  update: void;
+  finish: void;
+  'update:status': void;
+}
+
+/**
+ * Master Events, event name => data type
+ */
+export interface MasterEventMap {
+  add: void;
+  update: void;
+  import: void;
+  // aggregated progress of workers in progress or done
+  progress: MasterProgress;
+  complete: void;
+  error: void;
+  timeout: void;
+  cancel: void;
+  pause: void;
+  resume: void;
+  run: void;
+  retry: void;
+  runnable: void;
+  priority: void;
+  evict: void;
+  reject: void;
+}
+
+export type WorkerListener<W, D = void> = (error: Error | null, worker: W, data: D) => void;
+
+export type MasterListener<D = void> = (error: Error | null | undefined, worker: IWorker | undefined, workers: Pool, data: D) => void;
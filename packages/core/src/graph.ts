@@ -0,0 +1,120 @@
+export interface DependencyGraphJSON {
+  nodes: string[];
+  /**
+   * [dependent, dependency]
+   */
+  edges: [string, string][];
+}
+
+export interface IDependencyGraph {
+  /**
+   * Add node with its dependencies
+   * 
+   * @param id node id
+   * @param dependencies dependency ids
+   */
+  add(id: string, dependencies?: string[]): void;
+
+  /**
+   * Remove node
+   * 
+   * @param id node id
+   */
+  remove(id: string): void;
+
+  /**
+   * Nodes which the node depends on
+   * 
+   * @param id node id
+   */
+  dependencies(id: string): string[];
+
+  /**
+   * Nodes which depend on the node
+   * 
+   * @param id node id
+   */
+  dependents(id: string): string[];
+
+  toJSON(): DependencyGraphJSON;
+}
+
+/**
+ * Directed Acyclic Graph of worker dependencies
+ */
+export class DependencyGraph implements IDependencyGraph {
+  private readonly edges: Record<string, Set<string>> = {};
+  private readonly reverse: Record<string, Set<string>> = {};
+
+  public add(id: string, dependencies: string[] = []) {
+    for (const dependency of dependencies) {
+      if (dependency === id || this.reachable(dependency, id)) {
+        throw new Error(`Circular Dependency: ${id} => ${dependency}`);
+      }
+    }
+
+    this.ensure(id);
+
+    for (const dependency of dependencies) {
+      this.ensure(dependency);
+
+      this.edges[id].add(dependency);
+      this.reverse[dependency].add(id);
+    }
+  }
+
+  public remove(id: string) {
+    if (!this.edges[id]) return ;
+
+    this.edges[id].forEach(dependency => this.reverse[dependency].delete(id));
+    this.reverse[id].forEach(dependent => this.edges[dependent].delete(id));
+
+    delete this.edges[id];
+    delete this.reverse[id];
+  }
+
+  public dependencies(id: string) {
+    return this.edges[id] ? Array.from(this.edges[id]) : [];
+  }
+
+  public dependents(id: string) {
+    return this.reverse[id] ? Array.from(this.reverse[id]) : [];
+  }
+
+  public toJSON(): DependencyGraphJSON {
+    const edges: [string, string][] = [];
+
+    for (const id in this.edges) {
+      this.edges[id].forEach(dependency => edges.push([id, dependency]));
+    }
+
+    return {
+      nodes: Object.keys(this.edges),
+      edges,
+    };
+  }
+
+  private ensure(id: string) {
+    if (this.edges[id]) return ;
+
+    this.edges[id] = new Set();
+    this.reverse[id] = new Set();
+  }
+
+  // depth first search, whether from depends on to
+  private reachable(from: string, to: string) {
+    const visited = new Set<string>();
+    const stack = [from];
+
+    while (stack.length) {
+      const id = stack.pop()!;
+      if (id === to) return true;
+      if (visited.has(id)) continue;
+
+      visited.add(id);
+      stack.push(...this.dependencies(id));
+    }
+
+    return false;
+  }
+}
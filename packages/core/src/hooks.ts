@@ -0,0 +1,82 @@
+import { IWorker } from './worker';
+
+export type HookResult<T = void> = T | Promise<T>;
+
+/**
+ * Request about to send, hooks mutate it in place
+ */
+export interface HookRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  // form fields or query
+  data: Record<string, string>;
+}
+
+/**
+ * Response received, hooks validate it or replace the body
+ */
+export interface HookResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: any;
+}
+
+/**
+ * Hooks around worker execution
+ *  master hooks run before worker hooks, each in the order of use()
+ */
+export interface Hooks<W extends IWorker = IWorker> {
+  /**
+   * Before each run, retries included
+   *  return false to veto, then the worker is cancelled
+   *  throw to fail, then the worker errors with it
+   */
+  beforeRun?(worker: W): HookResult<boolean | void>;
+
+  /**
+   * Before each request, such as refreshing token or signing
+   *  throw to fail the run
+   */
+  beforeRequest?(request: HookRequest, worker: W): HookResult;
+
+  /**
+   * After each response, before the worker handles it
+   *  throw to fail the run
+   */
+  afterResponse?(response: HookResponse, worker: W): HookResult;
+
+  /**
+   * After worker errors, for notification only
+   */
+  onError?(error: Error, worker: W): HookResult;
+
+  /**
+   * After worker settles, for notification only
+   */
+  onFinish?(worker: W): HookResult;
+}
+
+export type HookName = keyof Hooks;
+
+/**
+ * Call hooks one by one, stop when one returns false
+ *  resolve false if vetoed
+ *
+ * @param hooks hooks in order
+ * @param name hook name
+ * @param args hook arguments
+ */
+export async function callHooks(hooks: Hooks<any>[], name: HookName, ...args: any[]) {
+  for (const hook of hooks) {
+    const fn = hook[name] as Function | undefined;
+    if (!fn) continue;
+
+    if (await fn.apply(hook, args) === false) {
+      return false;
+    }
+  }
+
+  return true;
+}
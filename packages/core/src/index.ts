@@ -1,4 +1,16 @@
 export * from './types';
 export * from './pool';
 export * from './master';
-export * from './worker';
\ No newline at end of file
+export * from './worker';
+export * from './snapshot';
+export * from './registry';
+export * from './storage';
+export * from './priority-queue';
+export * from './graph';
+export * from './throttle';
+export * from './events';
+export * from './query';
+export * from './speedometer';
+export * from './hooks';
+export * from './transition';
+export * from './clock';
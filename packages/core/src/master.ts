@@ -1,23 +1,63 @@
 
-import { nextTick as noDelayNextTick } from '@zodash/next-tick';
-import { delay } from '@zodash/delay';
-import { Queue } from '@zodash/queue';
 import { strategy as createStrategy } from '@zodash/strategy';
 
-import { STATUS } from './types';
-import { Pool } from './pool';
-import { IWorker, Worker } from './worker';
-
-export type MasterCallback = (error: Error | null | undefined, worker: IWorker | undefined, workers: Pool) => void;
+import { STATUS, DEFAULT_QUEUE, ISignal } from './types';
+import { Pool, PoolPolicy } from './pool';
+import { IWorker } from './worker';
+import { Snapshot, WorkerSnapshot, SNAPSHOT_VERSION } from './snapshot';
+import { Registry, WorkerClass, registry as defaultRegistry } from './registry';
+import { IStorage } from './storage';
+import { PriorityQueue } from './priority-queue';
+import { Deadline } from './deadline';
+import { RetryPolicy, shouldRetry, backoff } from './retry';
+import { DependencyGraph } from './graph';
+import { TokenBucket } from './throttle';
+import { MasterEventMap, MasterListener } from './events';
+import { Hooks } from './hooks';
+import { clock } from './clock';
+import { WorkerQuery, MasterStats, QueueStats, MasterProgress, select, measure, summarize } from './query';
+
+export type MasterCallback = MasterListener<any>;
 
 export type StatusSet = Record<STATUS, Set<string>>
-export type StatusQueue = Record<STATUS.PENDING | STATUS.RUNNING, Queue<string>>;
+export type StatusQueue = {
+  [STATUS.PENDING]: PriorityQueue<string>;
+  [STATUS.RUNNING]: PriorityQueue<string>;
+};
+
+// workers counted in overall progress, failed or cancelled ones will not finish
+const PROGRESS_STATUSES = [STATUS.WAITING, STATUS.PENDING, STATUS.RUNNING, STATUS.PAUSED, STATUS.COMPLETE];
+
+const isStorage = (source: Snapshot | IStorage): source is IStorage => {
+  return typeof (source as IStorage).load === 'function';
+}
 
-const nextTick = async (fn: Function) => {
-  await delay(300);
-  fn.call(null);
+// only worker leaving RUNNING frees the slot, PENDING or PAUSED never takes one
+const release = ({ worker, master }: { worker: IWorker, master: any }) => {
+  if (worker.prevStatus === STATUS.RUNNING) {
+    master.running -= 1;
+    master.group(worker.queue).running -= 1;
+  }
+}
+
+// state of named queue
+interface Group {
+  concurrency: number;
+  // null means follow default queue
+  timeout: number | null;
+  paused: boolean;
+  running: number;
+  starting: number;
 }
 
+const createGroup = (options: QueueOptions = {}): Group => ({
+  concurrency: options.concurrency === undefined ? 2 : options.concurrency,
+  timeout: options.timeout === undefined ? null : options.timeout,
+  paused: !!options.paused,
+  running: 0,
+  starting: 0,
+});
+
 export interface IMaster {
   /**
    * is up
@@ -31,8 +71,20 @@ export interface IMaster {
 
   /**
    * Shut Down
+   * 
+   * @param options shutdown mode and deadline
+   */
+  shutdown(options?: ShutdownOptions): Promise<void>;
+
+  /**
+   * Resolve when no worker is pending, running, waiting or backing off for retry
+   */
+  onIdle(): Promise<void>;
+
+  /**
+   * Resolve when all pending workers are dispatched, running ones may not finish
    */
-  shutdown(): Promise<void>;
+  onEmpty(): Promise<void>;
 
   /**
    * Create Worker Into Pool
@@ -40,7 +92,7 @@ export interface IMaster {
    * @param W Worker Class
    * @param options Worker Options
    */
-  create<P>(W: Worker<P>, options: P): Promise<IWorker<P>>;
+  create<P>(W: WorkerClass<P>, options: P, settings?: CreateOptions): Promise<IWorker<P>>;
 
   /**
    * Get Worker From Pool
@@ -85,42 +137,97 @@ export interface IMaster {
   
   /**
    * Execute All Workers (Start All)
+   * 
+   * @param queue only workers in the queue if given
    */
-  executeAll(): Promise<void>;
+  executeAll(queue?: string): Promise<void>;
 
   /**
    * Cancel All Workers (Cancel All)
+   * 
+   * @param queue only workers in the queue if given
    */
-  cancelAll(): Promise<void>;
+  cancelAll(queue?: string): Promise<void>;
 
   /**
    * Pause All Workers (Pause All)
+   * 
+   * @param queue only workers in the queue if given
+   */
+  pauseAll(queue?: string): Promise<void>;
+
+  /**
+   * Resume All Workers (Resume All)
+   * 
+   * @param queue only workers in the queue if given
+   */
+  resumeAll(queue?: string): Promise<void>;
+
+  /**
+   * Create Named Queue
+   * 
+   * @param name queue name
+   * @param options concurrency, timeout and paused state
+   */
+  createQueue(name: string, options?: QueueOptions): Promise<void>;
+
+  /**
+   * Pause Queue, running workers keep going, pending ones wait
+   * 
+   * @param name queue name
+   */
+  pauseQueue(name: string): Promise<void>;
+
+  /**
+   * Resume Queue
+   * 
+   * @param name queue name
    */
-  pauseAll(): Promise<void>;
+  resumeQueue(name: string): Promise<void>;
 
   /**
-   * Export Workers
+   * Export Workers as Snapshot
+   * 
+   * @param storage save snapshot into storage if given
    */
-  export(): Promise<void>;
+  export(storage?: IStorage): Promise<Snapshot>;
 
   /**
-   * Import Workers
+   * Import Workers from Snapshot
+   * 
+   * @param source snapshot or storage which saved snapshot
    */
-  import(): Promise<void>;
+  import(source: Snapshot | IStorage): Promise<IWorker[]>;
 
   /**
    * Set Concurrency
    * 
    * @param concurrency concurrency count
+   * @param queue queue name, default queue if not given
+   */
+  setConcurrency(concurrency: number, queue?: string): Promise<void>;
+
+  /**
+   * Set Concurrency Cap of All Queues
+   * 
+   * @param maxConcurrency concurrency count, Infinity means no cap
+   */
+  setMaxConcurrency(maxConcurrency: number): Promise<void>;
+
+  /**
+   * Set Bandwidth Shared by All Workers
+   * 
+   * @param maxBytesPerSecond bytes per second, 0 means unlimited
    */
-  setConcurrency(concurrency: number): Promise<void>;
+  setMaxBytesPerSecond(maxBytesPerSecond: number): Promise<void>;
 
   /**
    * Set Timeout for Each Worker
    * 
    * @param timeout timeout, ms
+   * @param queue queue name, default queue if not given
    */
-  setTimeout(timeout: number): Promise<void>;
+  setTimeout(timeout: number, queue?: string): Promise<void>;
 
   /**
    * Set Priority for Specific Worker
@@ -129,75 +236,353 @@ export interface IMaster {
    * @param priority priority weight
    */
   setPriority(id: string, priority: number): Promise<void>;
+
+  /**
+   * List Workers by Query
+   * 
+   * @param query status, type, filter, sort and pagination
+   */
+  list(query?: WorkerQuery): Promise<IWorker[]>;
+
+  /**
+   * Count Workers by Query, pagination ignored
+   * 
+   * @param query status, type and filter
+   */
+  count(query?: WorkerQuery): Promise<number>;
+
+  /**
+   * Summary of Workers
+   */
+  stats(): Promise<MasterStats>;
+
+  /**
+   * Aggregated Progress, Speed and ETA of Workers
+   * 
+   * @param query batch of workers, default all WAITING, PENDING, RUNNING, PAUSED and COMPLETE workers
+   */
+  progress(query?: WorkerQuery): Promise<MasterProgress>;
+
+  /**
+   * Add Hooks for All Workers, run before worker hooks
+   * 
+   * @param hooks hooks
+   */
+  use(hooks: Hooks<any>): this;
+}
+
+export interface CreateOptions {
+  /**
+   * Priority weight, higher runs first, same priority runs FIFO
+   * 
+   * @default 0
+   */
+  priority?: number;
+
+  /**
+   * Timeout of running, ms, override master timeout
+   */
+  timeout?: number;
+
+  /**
+   * Retry policy for ERROR and TIMEOUT, override master retry
+   */
+  retry?: RetryPolicy;
+
+  /**
+   * Worker IDs which should be COMPLETE before this worker runs
+   */
+  dependsOn?: string[];
+
+  /**
+   * Hooks of the worker, run after master hooks
+   */
+  hooks?: Hooks<any>;
+
+  /**
+   * Named queue, created by options.queues or createQueue()
+   * 
+   * @default default
+   */
+  queue?: string;
+
+  /**
+   * Cancel the worker when aborted, one controller could cancel a batch
+   *  aborted worker will not be executed again
+   */
+  signal?: ISignal;
+}
+
+export interface QueueOptions {
+  /**
+   * @default 2
+   */
+  concurrency?: number;
+
+  /**
+   * Timeout of running for each worker, ms
+   * 
+   * @default follow default queue
+   */
+  timeout?: number;
+
+  /**
+   * Paused queue dispatches no worker until resumed
+   * 
+   * @default false
+   */
+  paused?: boolean;
+}
+
+export interface ShutdownOptions {
+  /**
+   * stop: stop dispatching, resolve immediately
+   * drain: stop dispatching, resolve when running workers settle
+   * cancel: cancel running workers, resolve when all of them are cancelled
+   *  pending workers stay PENDING in all modes, dispatched after next startup
+   * 
+   * @default stop
+   */
+  mode?: 'stop' | 'drain' | 'cancel';
+
+  /**
+   * For drain, cancel running workers when exceeded, ms
+   * 
+   * @default 0 (no deadline)
+   */
+  deadline?: number;
 }
 
 export interface MasterOptions {
+  /**
+   * Concurrency of default queue
+   * 
+   * @default 2
+   */
   concurrency?: number;
+
+  /**
+   * Named queues besides default queue, each with its own concurrency
+   */
+  queues?: Record<string, QueueOptions>;
+
+  /**
+   * Concurrency cap of all queues
+   * 
+   * @default Infinity
+   */
+  maxConcurrency?: number;
+
+  /**
+   * Timeout of running for each worker in default queue, ms, paused time not included
+   * 
+   * @default 0 (no timeout)
+   */
   timeout?: number;
+
+  /**
+   * Retry policy for ERROR and TIMEOUT workers
+   * 
+   * @default no retry
+   */
+  retry?: RetryPolicy;
+
+  /**
+   * Worker Class Registry for export/import
+   * 
+   * @default registry (global)
+   */
+  registry?: Registry;
+
+  /**
+   * The status RUNNING workers restored as when import
+   * 
+   * @default STATUS.PENDING
+   */
+  restoreRunningAs?: STATUS.PENDING | STATUS.PAUSED;
+
+  /**
+   * What happens to WAITING dependents when a dependency fails or is cancelled
+   * 
+   * @default cancel
+   */
+  onDependencyFailure?: 'cancel' | 'error';
+
+  /**
+   * Bandwidth shared by all running workers, bytes per second
+   *  workers pacing their own sends take part, such as chunked uploads and whole files streamed by fetch
+   * 
+   * @default 0 (unlimited)
+   */
+  maxBytesPerSecond?: number;
+
+  /**
+   * Max count of workers in pool
+   * 
+   * @default Infinity
+   */
+  capacity?: number;
+
+  /**
+   * What happens when the pool is full, PENDING or RUNNING workers are never evicted
+   * 
+   * @default reject
+   */
+  capacityPolicy?: PoolPolicy;
+
+  /**
+   * Time to live of COMPLETE workers, ms, for ttl capacity policy
+   */
+  ttl?: number;
 }
 
-export class Master implements IMaster {
-  private readonly listeners: Record<string, MasterCallback[]> = {};
+export class Master<E extends MasterEventMap = MasterEventMap> implements IMaster {
+  private readonly listeners: Record<string, Function[]> = {};
   
-  private readonly concurrency = this.options.concurrency || 2;
+  private readonly maxConcurrency = this.options.maxConcurrency || Infinity;
 
   private _isUp = false;
 
-  private readonly workers = new Pool({ capacity: Infinity });
+  private readonly workers = new Pool({
+    capacity: this.options.capacity || Infinity,
+    policy: this.options.capacityPolicy,
+    ttl: this.options.ttl,
+    // same as remove, keep dependencies of WAITING workers
+    evictable: (worker) => !this.graph.dependents(worker.id).some(id => this.statusSets[STATUS.WAITING].has(id)),
+  });
+
+  private readonly registry = this.options.registry || defaultRegistry;
+
+  private readonly groups: Record<string, Group> = this.createGroups();
+  private readonly deadlines: Record<string, Deadline> = {};
+
+  // hooks shared by all workers
+  private readonly hooks: Hooks<any>[] = [];
+
+  // backoff timers
+  private readonly retries: Record<string, any> = {};
+
+  // external signals from create
+  private readonly signals: Record<string, { signal: ISignal, onAbort: () => void }> = {};
+
+  // onIdle, onEmpty and shutdown waiting for conditions
+  private waiters: { done: () => boolean, resolve: () => void }[] = [];
 
   private running = 0;
+  // dispatched, but not RUNNING yet
+  private starting = 0;
   private readonly statusSets: StatusSet = {
     [STATUS.INITIALED]: new Set(),
-    [STATUS.PENDING]: new Set(), // @TODO
-    [STATUS.RUNNING]: new Set(), // @TODO
+    [STATUS.WAITING]: new Set(),
+    [STATUS.PENDING]: new Set(),
+    [STATUS.RUNNING]: new Set(),
     [STATUS.COMPLETE]: new Set(),
     [STATUS.ERROR]: new Set(),
     [STATUS.TIMEOUT]: new Set(),
     [STATUS.CANCELLED]: new Set(),
     [STATUS.PAUSED]: new Set(),
   };
+  // worker class => ids, for query by type
+  private readonly types = new Map<Function, Set<string>>();
+  // bytes of workers in overall progress, kept by progress and status changes rather than scanning
+  private readonly counted: Record<string, { total: number, loaded: number }> = {};
+  private readonly overall = { total: 0, loaded: 0 };
   public readonly queue: StatusQueue = {
-    [STATUS.PENDING]: new Queue<string>(Infinity),
-    [STATUS.RUNNING]: new Queue<string>(this.concurrency),
+    [STATUS.PENDING]: new PriorityQueue<string>(),
+    [STATUS.RUNNING]: new PriorityQueue<string>(),
   };
 
-  constructor(public readonly options: MasterOptions = {}) {}
+  /**
+   * Dependencies between workers
+   */
+  public readonly graph = new DependencyGraph();
+
+  /**
+   * Bandwidth shared by workers
+   */
+  public readonly throttle = new TokenBucket(this.options.maxBytesPerSecond || 0);
+
+  private createGroups() {
+    const groups: Record<string, Group> = {};
+
+    for (const name in this.options.queues || {}) {
+      groups[name] = createGroup(this.options.queues![name]);
+    }
+
+    groups[DEFAULT_QUEUE] = createGroup({
+      concurrency: this.options.concurrency || 2,
+      timeout: this.options.timeout || 0,
+    });
+
+    return groups;
+  }
+
+  constructor(public readonly options: MasterOptions = {}) {
+    this.workers
+      .on('evict', (worker: IWorker) => {
+        this.forget(worker);
+
+        this.emit(['update', 'evict'], null, worker);
+      })
+      .on('reject', (worker: IWorker) => {
+        this.emit('reject', null, worker);
+      });
+  }
 
   public get isUp() {
     return this._isUp;
   }
 
   // event
-  public emit(event: string | string[], error?: Error | null, worker?: IWorker) {
-    const events = Array.isArray(event) ? event : [event];
+  public emit<K extends keyof E>(event: K | K[], error?: Error | null, worker?: IWorker, data?: E[K]) {
+    const events = (Array.isArray(event) ? event : [event]) as string[];
 
     for (const event of events) {
       if (!this.listeners[event]) continue;
 
-      this.listeners[event].forEach(cb => {
-        cb(error, worker, this.workers);
+      // copy, listener may off itself
+      this.listeners[event].slice().forEach(cb => {
+        cb(error, worker, this.workers, data);
       });
     }
 
     return this;
   }
 
-  public on(event: string, cb: MasterCallback) {
-    if (!this.listeners[event]) {
-      this.listeners[event] = [];
+  public on<K extends keyof E>(event: K, cb: MasterListener<E[K]>) {
+    const name = event as string;
+
+    if (!this.listeners[name]) {
+      this.listeners[name] = [];
     }
 
-    this.listeners[event].push(cb);
+    this.listeners[name].push(cb);
     return this;
   }
 
-  public off(event: string, cb: MasterCallback) {
-    if (!this.listeners[event]) {
-      return ;
+  public once<K extends keyof E>(event: K, cb: MasterListener<E[K]>) {
+    const wrapper: MasterListener<E[K]> = (error, worker, workers, data) => {
+      this.off(event, cb);
+      cb(error, worker, workers, data);
+    };
+
+    // off by the original listener
+    (wrapper as any).listener = cb;
+
+    return this.on(event, wrapper);
+  }
+
+  public off<K extends keyof E>(event: K, cb: MasterListener<E[K]>) {
+    const listeners = this.listeners[event as string];
+    if (!listeners) {
+      return this;
+    }
+
+    const index = listeners.findIndex(listener => listener === cb || (listener as any).listener === cb);
+    if (index !== -1) {
+      listeners.splice(index, 1);
     }
 
-    const index = this.listeners[event].indexOf(cb);
-    this.listeners[event].splice(index, 1);
     return this;
   }
 
@@ -205,133 +590,401 @@ export class Master implements IMaster {
     // remove
     if (worker.prevStatus === null) {
       //
-    } else if ([STATUS.PENDING, STATUS.RUNNING].includes(worker.prevStatus)) {
-      this.queue[worker.prevStatus as STATUS.PENDING | STATUS.RUNNING].dequeue();
     } else {
+      // the exact worker, not the head, others may leave first
+      if (worker.prevStatus === STATUS.PENDING || worker.prevStatus === STATUS.RUNNING) {
+        this.queue[worker.prevStatus].remove(worker.id);
+      }
+
       this.statusSets[worker.prevStatus].delete(worker.id);
     }
 
     // add
-    if ([STATUS.PENDING, STATUS.RUNNING].includes(worker.status)) {
-      this.queue[worker.status as STATUS.PENDING | STATUS.RUNNING].enqueue(worker.id);
-    } else {
-      this.statusSets[worker.status].add(worker.id);
+    if (worker.status === STATUS.PENDING) {
+      this.queue[STATUS.PENDING].enqueue(worker.id, worker.priority);
+    } else if (worker.status === STATUS.RUNNING) {
+      this.queue[STATUS.RUNNING].enqueue(worker.id);
     }
 
+    this.statusSets[worker.status].add(worker.id);
+
+    this.account(worker);
+
     // const t = [STATUS.PENDING, STATUS.RUNNING];
     // if (t.includes(worker.prevStatus!) || t.includes(worker.status)) {
     //   console.log('update status: ', worker.filename, ' ', worker.prevStatus, ' => ', worker.status);
     //   console.log('queue size: ', 'pending-', this.queue.PENDING.size(), ' running-', this.queue.RUNNING.size());
     // }
 
+    this.watch(worker);
+
     // create strategy
     const strategy = createStrategy<{ worker: IWorker, master: Master }, any>({
       [STATUS.INITIALED]: ({ master }) => {},
+      [STATUS.WAITING]: ({ master }) => {},
       [STATUS.PENDING]: ({ master }) => {},
-      [STATUS.RUNNING]: ({ master }) => { master.running += 1; },
-      [STATUS.COMPLETE]: ({ master }) => { master.running -= 1; },
-      [STATUS.ERROR]: ({ master }) => { master.running -= 1; },
-      [STATUS.TIMEOUT]: ({ master }) => { master.running -= 1; },
-      [STATUS.CANCELLED]: ({ worker, master }) => {
-        // worker did not start
-        if (worker.prevStatus === STATUS.PENDING) return ;
-        if (worker.prevStatus === STATUS.INITIALED) return ; // ensure, most will not trigger
-
-        master.running -= 1;
+      [STATUS.RUNNING]: ({ master }) => {
+        master.running += 1;
+        master.group(worker.queue).running += 1;
       },
-      [STATUS.PAUSED]: ({ master }) => { master.running -= 1; },
+      [STATUS.COMPLETE]: release,
+      [STATUS.ERROR]: release,
+      [STATUS.TIMEOUT]: release,
+      [STATUS.CANCELLED]: release,
+      [STATUS.PAUSED]: release,
     }, ({ worker }) => {
       return worker.status;
     });
     
     // run
     strategy({ worker, master: this });
+
+    // queue changed or slot freed
+    if (worker.status === STATUS.PENDING || worker.prevStatus === STATUS.RUNNING) {
+      this.schedule();
+    }
+
+    this.wake();
   }
 
-  // concurrency
-  private async parallel(limit: number) {
-    for (let i = 0; i < limit; ++i) {
-      nextTick(this.poll);
+  // resolve when done, checked after status changed
+  private until(done: () => boolean) {
+    return new Promise<void>(resolve => {
+      if (done()) return resolve();
+
+      this.waiters.push({ done, resolve });
+    });
+  }
+
+  private wake() {
+    if (!this.waiters.length) return ;
+
+    // after listeners of the same event, such as retry scheduled on error
+    Promise.resolve().then(() => {
+      const waiters = this.waiters;
+      this.waiters = waiters.filter(waiter => !waiter.done());
+
+      waiters
+        .filter(waiter => this.waiters.indexOf(waiter) === -1)
+        .forEach(waiter => waiter.resolve());
+    });
+  }
+
+  private isIdle() {
+    return this.queue[STATUS.PENDING].isEmpty()
+      && this.running + this.starting === 0
+      && !this.statusSets[STATUS.WAITING].size
+      && !Object.keys(this.retries).length;
+  }
+
+  // timeout
+  private watch(worker: IWorker) {
+    const deadline = this.deadlines[worker.id];
+
+    // start counting when enter RUNNING, continue if paused before
+    if (worker.status === STATUS.RUNNING) {
+      if (deadline) {
+        return deadline.start();
+      }
+
+      const group = this.group(worker.queue);
+      const timeout = worker.timeout !== null
+        ? worker.timeout
+        : group.timeout !== null ? group.timeout : this.groups[DEFAULT_QUEUE].timeout!;
+      if (!timeout) return ;
+
+      this.deadlines[worker.id] = new Deadline(timeout, () => {
+        delete this.deadlines[worker.id];
+        worker.expire();
+      });
+
+      return this.deadlines[worker.id].start();
+    }
+
+    if (!deadline) return ;
+
+    // paused time should not count
+    if (worker.status === STATUS.PAUSED || (worker.status === STATUS.PENDING && worker.prevStatus === STATUS.PAUSED)) {
+      return deadline.pause();
     }
+
+    deadline.clear();
+    delete this.deadlines[worker.id];
   }
 
-  private async next() {
-     // dequeue
-    try {
-      const id = this.queue[STATUS.PENDING].peek(); // this.collection[STATUS.PENDING][0];
-      // if (!id) return ;
+  // retry
+  private retry(worker: IWorker, error: Error | null) {
+    const policy = worker.retryPolicy || this.options.retry;
+    if (!policy || !shouldRetry(policy, error, worker)) {
+      return false;
+    }
 
-      // worker
-      return this.get(id);
-    } catch (error) {
-      return ;
+    // failed by dependency, retry will not help
+    if (this.graph.dependencies(worker.id).some(id => !this.statusSets[STATUS.COMPLETE].has(id))) {
+      return false;
     }
+
+    this.retries[worker.id] = clock.setTimeout(() => {
+      delete this.retries[worker.id];
+
+      // cancelled or executed by hand during backoff
+      if (![STATUS.ERROR, STATUS.TIMEOUT].includes(worker.status)) {
+        return this.wake();
+      }
+
+      this.emit('retry', error, worker);
+      worker.retry();
+    }, backoff(policy, worker.attempts));
+
+    return true;
   }
 
-  private poll = async () => {
-    const rest = this.concurrency - this.running;
+  private clearRetry(id: string) {
+    if (!this.retries[id]) return ;
 
-    // if shutdown, stop nextTick
-    if (!this._isUp) {
-      return ;
-    } else if (rest === 0) {
-      // watch when = 0, queue full
-      return nextTick(this.poll);
-    } else if (rest < 0) {
-      // @TODO
-      // throw new Error('Unexpected Error rest < 0');
-      //
-      // @TODO only when concurrency change, if rest < 0, should stop current
-      return ;
-    } else {
-      // > 0
-      const worker = await this.next();
-      if (worker) {
-        await worker.run();
-        const self = this;
+    clock.clearTimeout(this.retries[id]);
+    delete this.retries[id];
 
-        // when finish call next / poll
-        worker.on('finish', function done() {
-          worker.off('finish', done);
+    this.wake();
+  }
 
-          nextTick(self.poll);
-        });
-      } else {
-        // watch when > 0, no worker found
-        return nextTick(this.poll);
+  // dependency
+  //  check WAITING dependents when worker settled
+  private async propagate(worker: IWorker) {
+    for (const id of this.graph.dependents(worker.id)) {
+      const dependent = await this.get(id);
+
+      if (dependent && dependent.status === STATUS.WAITING) {
+        await this.resolve(dependent);
+      }
+    }
+  }
+
+  // run WAITING worker when all dependencies COMPLETE, or fail it when one failed finally
+  private async resolve(worker: IWorker) {
+    const ids = this.graph.dependencies(worker.id);
+    const dependencies = await Promise.all(ids.map(id => this.get(id)));
+
+    // removed or failed finally
+    const failed = ids.find((id, index) => {
+      const dependency = dependencies[index];
+
+      return !dependency || (
+        [STATUS.ERROR, STATUS.TIMEOUT, STATUS.CANCELLED].includes(dependency.status)
+        && !this.retries[id]
+      );
+    });
+
+    if (failed) {
+      if (this.options.onDependencyFailure === 'error') {
+        return worker.emit('error', new Error(`Dependency(${failed}) failed`));
       }
+
+      return worker.cancel();
+    }
+
+    if (dependencies.every(dependency => dependency.status === STATUS.COMPLETE)) {
+      this.emit('runnable', null, worker);
+
+      return worker.pending();
+    }
+  }
+
+  private group(name: string) {
+    const group = this.groups[name];
+
+    if (!group) {
+      throw new Error(`Invalid Queue(${name})`);
+    }
+
+    return group;
+  }
+
+  // concurrency
+  //  wake up only when PENDING added, RUNNING left, concurrency changed or startup
+  //  pick the first pending worker whose queue has a free slot, by priority
+  private schedule() {
+    if (!this._isUp) return ;
+
+    const available = (group: Group) => !group.paused && group.running + group.starting < group.concurrency;
+    if (!Object.keys(this.groups).some(name => available(this.groups[name]))) return ;
+
+    for (const id of this.queue[STATUS.PENDING].toArray()) {
+      if (this.running + this.starting >= this.maxConcurrency) return ;
+
+      const worker = this.workers.peek(id)!;
+      const group = this.group(worker.queue);
+      if (!available(group)) continue;
+
+      this.queue[STATUS.PENDING].remove(id);
+      this.starting += 1;
+      group.starting += 1;
+      this.dispatch(id, group);
     }
+  }
 
-    // return nextTick(this.poll);
+  private async dispatch(id: string, group: Group) {
+    const worker = await this.get(id);
+
+    try {
+      // shut down before dispatched, back to queue for next startup
+      if (worker && worker.status === STATUS.PENDING && !this._isUp) {
+        this.queue[STATUS.PENDING].enqueue(worker.id, worker.priority);
+      } else if (worker && worker.status === STATUS.PENDING) {
+        // not cancelled or paused before dispatched
+        await worker.run();
+      }
+    } catch (error) {
+      worker.emit('error', error);
+    } finally {
+      this.starting -= 1;
+      group.starting -= 1;
+      this.schedule();
+      this.wake();
+    }
   }
 
   // functions
   public async startup() {
     this._isUp = true;
 
-    await this.parallel(this.concurrency);
+    this.schedule();
   }
 
-  public async shutdown() {
+  public async shutdown(options: ShutdownOptions = {}) {
+    const { mode = 'stop', deadline = 0 } = options;
+
     this._isUp = false;
+
+    if (mode === 'stop') return ;
+
+    if (mode === 'cancel') {
+      return this.cancelRunning();
+    }
+
+    const drained = this.until(() => this.running + this.starting === 0);
+    if (!deadline) {
+      return drained;
+    }
+
+    let timer: any;
+    const expired = new Promise<boolean>(resolve => {
+      timer = clock.setTimeout(() => resolve(true), deadline);
+    });
+
+    if (await Promise.race([drained.then(() => false), expired])) {
+      return this.cancelRunning();
+    }
+
+    clock.clearTimeout(timer);
+  }
+
+  // wait for dispatched ones to run, then cancel all running
+  private async cancelRunning() {
+    await this.until(() => this.starting === 0);
+
+    await Promise.all(Array.from(this.statusSets[STATUS.RUNNING]).map(id => this.cancel(id)));
+
+    await this.until(() => this.running === 0);
+  }
+
+  public onIdle() {
+    return this.until(() => this.isIdle());
+  }
+
+  public onEmpty() {
+    return this.until(() => this.queue[STATUS.PENDING].isEmpty());
   }
   
-  public async create<P>(W: Worker<P>, options: P) {
+  public async create<P>(W: WorkerClass<P>, options: P, settings: CreateOptions = {}) {
+    const queue = settings.queue || DEFAULT_QUEUE;
+    this.group(queue);
+
+    const dependsOn = settings.dependsOn || [];
+    for (const id of dependsOn) {
+      if (!await this.get(id)) {
+        throw new Error(`Invalid Dependency Worker ID(${id})`);
+      }
+    }
+
     const worker = await this.workers.create(W, options);
+    this.graph.add(worker.id, dependsOn);
+
+    if (settings.priority !== undefined) {
+      worker.setPriority(settings.priority);
+    }
+
+    if (settings.timeout !== undefined) {
+      worker.setTimeout(settings.timeout);
+    }
+
+    if (settings.retry) {
+      worker.setRetryPolicy(settings.retry);
+    }
+
+    if (settings.hooks) {
+      worker.use(settings.hooks);
+    }
+
+    if (queue !== DEFAULT_QUEUE) {
+      worker.setQueue(queue);
+    }
+
+    this.attach(worker);
+
+    if (settings.signal) {
+      this.listen(worker, settings.signal);
+    }
+
+    // index as INITIALED, no status change emitted yet
+    this.statusSets[worker.status].add(worker.id);
+
+    this.emit(['update', 'add']);
+
+    return worker;
+  }
+
+  private attach(worker: IWorker) {
+    worker.setThrottle(this.throttle);
+    worker.setPool(this.workers);
+    worker.setHooks(this.hooks);
+
+    if (!this.types.has(worker.constructor)) {
+      this.types.set(worker.constructor, new Set());
+    }
+    this.types.get(worker.constructor)!.add(worker.id);
 
     worker
-      .on('progress', () => this.emit(['update', 'progress'], null, worker))
+      .on('progress', () => {
+        this.account(worker);
+
+        this.emit('update', null, worker);
+
+        if (this.listeners.progress && this.listeners.progress.length) {
+          this.emit('progress', null, worker, this.overallProgress());
+        }
+      })
       .on('complete', () => {
         this.emit('complete', null, worker);
+        this.propagate(worker);
       })
       .on('error', (error) => {
         this.emit('error', error, worker);
+
+        if (!this.retry(worker, error)) {
+          this.propagate(worker);
+        }
       })
       .on('timeout', () => {
         this.emit('timeout', null, worker);
+
+        if (!this.retry(worker, null)) {
+          this.propagate(worker);
+        }
       })
       .on('cancel', () => {
         this.emit('cancel', null, worker);
+        this.propagate(worker);
       })
       .on('pause', () => {
         this.emit('pause', null, worker);
@@ -353,10 +1006,6 @@ export class Master implements IMaster {
       //   // concurrency
       //   this.running -= 1;
       // });
-
-    this.emit(['update', 'add']);
-
-    return worker;
   }
 
   public async get<P>(id: string) {
@@ -378,8 +1027,12 @@ export class Master implements IMaster {
       throw new Error(`Worker(${worker.id}) was not in Set(${worker.status})`);
     }
 
-    // remove from set
-    this.statusSets[worker.status].delete(worker.id);
+    const waiting = this.graph.dependents(worker.id).filter(id => this.statusSets[STATUS.WAITING].has(id));
+    if (waiting.length) {
+      throw new Error(`Cannot remove the worker, which is depended by WAITING Worker(${waiting.join(', ')})`);
+    }
+
+    this.forget(worker);
 
     // remove from workers pool
     this.workers.remove(id);
@@ -387,6 +1040,79 @@ export class Master implements IMaster {
     this.emit('update');
   }
 
+  // cancel by external signal
+  private listen(worker: IWorker, signal: ISignal) {
+    const onAbort = () => {
+      this.cancel(worker.id).catch((error) => {
+        this.emit('error', error, worker);
+      });
+    };
+
+    this.signals[worker.id] = { signal, onAbort };
+
+    if (signal.aborted) {
+      return onAbort();
+    }
+
+    signal.addEventListener('abort', onAbort);
+  }
+
+  // drop indexes of the worker leaving pool
+  private forget(worker: IWorker) {
+    if (this.signals[worker.id]) {
+      const { signal, onAbort } = this.signals[worker.id];
+      signal.removeEventListener('abort', onAbort);
+      delete this.signals[worker.id];
+    }
+
+    worker.setPool(null);
+
+    this.graph.remove(worker.id);
+
+    this.clearRetry(worker.id);
+
+    if (this.deadlines[worker.id]) {
+      this.deadlines[worker.id].clear();
+      delete this.deadlines[worker.id];
+    }
+
+    // remove from set
+    this.statusSets[worker.status].delete(worker.id);
+
+    const ids = this.types.get(worker.constructor);
+    if (ids) {
+      ids.delete(worker.id);
+    }
+
+    this.account(worker, false);
+  }
+
+  // update bytes of the worker in overall progress
+  private account(worker: IWorker, counted = PROGRESS_STATUSES.includes(worker.status)) {
+    const last = this.counted[worker.id];
+    if (last) {
+      this.overall.total -= last.total;
+      this.overall.loaded -= last.loaded;
+      delete this.counted[worker.id];
+    }
+
+    if (!counted) return ;
+
+    const current = this.counted[worker.id] = { total: worker.size, loaded: worker.size * worker.progress };
+    this.overall.total += current.total;
+    this.overall.loaded += current.loaded;
+  }
+
+  // overall progress by counted bytes, only RUNNING workers have speed
+  private overallProgress() {
+    let speed = 0;
+    this.statusSets[STATUS.RUNNING].forEach((id) => {
+      speed += this.workers.peek(id)!.speed;
+    });
+
+    return summarize(this.overall.total, this.overall.loaded, speed);
+  }
+
   public async execute(id: string) {
     if (!this._isUp) {
       throw new Error(`Your machine is not start up, please startup first.`);
@@ -394,12 +1120,26 @@ export class Master implements IMaster {
 
     const worker = await this.get(id);
 
-    worker.pending();
+    this.clearRetry(worker.id);
+
+    // cancelled by external signal
+    if (this.signals[id] && this.signals[id].signal.aborted) {
+      return ;
+    }
+
+    if (!this.graph.dependencies(worker.id).length) {
+      return worker.pending();
+    }
+
+    await worker.wait();
+    await this.resolve(worker);
   }
 
   public async cancel(id: string) {
     const worker = await this.get(id);
 
+    this.clearRetry(worker.id);
+
     await worker.cancel();
   }
 
@@ -415,54 +1155,290 @@ export class Master implements IMaster {
     await worker.resume();
   }
 
+  // workers in the queue, or all
+  private scope(queue?: string) {
+    if (queue !== undefined) {
+      this.group(queue);
+    }
+
+    return this.workers.map(worker => worker).filter(worker => queue === undefined || worker.queue === queue);
+  }
+
   /**
    * Start All Workers
    */
-  public async executeAll() {
-    await Promise.all(this.workers.map(worker => this.execute(worker.id)));
+  public async executeAll(queue?: string) {
+    await Promise.all(this.scope(queue).map(worker => this.execute(worker.id)));
   }
 
   /**
    * Cancel All Workers
    */
-  public async cancelAll() {
-    await Promise.all(this.workers.map(worker => this.cancel(worker.id)));
+  public async cancelAll(queue?: string) {
+    await Promise.all(this.scope(queue).map(worker => this.cancel(worker.id)));
   }
 
   /**
    * Pause All Workers
    */
-  public async pauseAll() {
-    await Promise.all(this.workers.map(worker => this.pause(worker.id)));
+  public async pauseAll(queue?: string) {
+    await Promise.all(this.scope(queue).map(worker => this.pause(worker.id)));
   }
 
-  public async export() {
-    throw new Error('@WIP 拼命开发中...');
+  /**
+   * Resume All Workers
+   */
+  public async resumeAll(queue?: string) {
+    await Promise.all(this.scope(queue).map(worker => this.resume(worker.id)));
+  }
+
+  public async createQueue(name: string, options: QueueOptions = {}) {
+    if (this.groups[name]) {
+      throw new Error(`Queue(${name}) already exists`);
+    }
+
+    this.groups[name] = createGroup(options);
+  }
+
+  public async pauseQueue(name: string) {
+    this.group(name).paused = true;
+  }
+
+  public async resumeQueue(name: string) {
+    this.group(name).paused = false;
+
+    this.schedule();
+  }
+
+  public async export(storage?: IStorage) {
+    const snapshot: Snapshot = {
+      version: SNAPSHOT_VERSION,
+      createdAt: clock.now(),
+      workers: this.workers.map<WorkerSnapshot>(worker => ({
+        name: this.registry.nameOf(worker.constructor),
+        id: worker.id,
+        options: worker.options,
+        status: worker.status,
+        progress: worker.progress,
+        priority: worker.priority,
+        timeout: worker.timeout,
+        queue: worker.queue,
+        dependsOn: this.graph.dependencies(worker.id),
+        createdAt: +worker.createdAt,
+        updatedAt: +worker.updatedAt,
+      })),
+    };
+
+    if (storage) {
+      await storage.save(snapshot);
+    }
+
+    return snapshot;
+  }
+
+  public async import(source: Snapshot | IStorage) {
+    const snapshot = isStorage(source) ? await source.load() : source;
+
+    // nothing saved
+    if (!snapshot) {
+      return [];
+    }
+
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported Snapshot Version(${snapshot.version}), expect ${SNAPSHOT_VERSION}`);
+    }
+
+    const workers: IWorker[] = [];
+    for (const item of snapshot.workers) {
+      const W = this.registry.get(item.name);
+      const worker = new W(item.options);
+
+      // RUNNING worker cannot continue after reload, avoid zombie
+      const status = item.status === STATUS.RUNNING
+        ? this.options.restoreRunningAs || STATUS.PENDING
+        : item.status;
+
+      worker.restore({ ...item, status });
+      this.group(worker.queue);
+
+      await this.workers.add(worker);
+      this.attach(worker);
+      this.updateStatus(worker);
+
+      workers.push(worker);
+    }
+
+    for (const item of snapshot.workers) {
+      this.graph.add(item.id, item.dependsOn || []);
+    }
+
+    for (const worker of workers) {
+      if (worker.status === STATUS.WAITING) {
+        await this.resolve(worker);
+      }
+    }
+
+    this.emit(['update', 'import']);
+
+    return workers;
   }
 
-  public async import() {
-    throw new Error('@WIP 拼命开发中...');
+  public use(hooks: Hooks<any>) {
+    this.hooks.push(hooks);
+    return this;
   }
 
-  public async setConcurrency(concurrency: number) {
+  public async setConcurrency(concurrency: number, queue = DEFAULT_QUEUE) {
     if (concurrency < 0) {
       throw new Error('Concurrency cannot be less than 0');
     }
 
-    const more = concurrency - this.concurrency;
-    (this as any).concurrency = concurrency;
+    this.group(queue).concurrency = concurrency;
+
+    // if more, dispatch pending workers
+    //  if less, running workers keep going, new ones wait
+    this.schedule();
+  }
 
-    // if more > 0, should run more parallel process
-    if (more > 0) {
-      await this.parallel(more);
+  public async setMaxConcurrency(maxConcurrency: number) {
+    if (maxConcurrency < 0) {
+      throw new Error('MaxConcurrency cannot be less than 0');
     }
+
+    (this as any).maxConcurrency = maxConcurrency;
+
+    this.schedule();
   }
 
-  public async setTimeout() {
-    throw new Error('@WIP 拼命开发中...');
+  public async setMaxBytesPerSecond(maxBytesPerSecond: number) {
+    if (maxBytesPerSecond < 0) {
+      throw new Error('MaxBytesPerSecond cannot be less than 0');
+    }
+
+    this.throttle.setRate(maxBytesPerSecond);
+  }
+
+  public async setTimeout(timeout: number, queue = DEFAULT_QUEUE) {
+    if (timeout < 0) {
+      throw new Error('Timeout cannot be less than 0');
+    }
+
+    // take effect from the next run
+    this.group(queue).timeout = timeout;
   }
 
   public async setPriority(id: string, priority: number) {
-    throw new Error('@WIP 拼命开发中...');
+    const worker = await this.get(id);
+
+    if (!worker) {
+      throw new Error(`Invalid Worker ID(${id})`);
+    }
+
+    worker.setPriority(priority);
+
+    // reorder in place
+    if (worker.status === STATUS.PENDING) {
+      this.queue[STATUS.PENDING].update(worker.id, priority);
+    }
+
+    this.emit(['update', 'priority'], null, worker);
   }
-}
\ No newline at end of file
+
+  // ids matched status and type, from indexes
+  private lookup(query: WorkerQuery) {
+    const statuses = query.status === undefined
+      ? Object.keys(this.statusSets) as STATUS[]
+      : ([] as STATUS[]).concat(query.status);
+
+    const ids: string[] = [];
+    for (const status of statuses) {
+      // PENDING in queue order
+      if (status === STATUS.PENDING) {
+        ids.push(...this.queue[STATUS.PENDING].toArray());
+      } else {
+        ids.push(...Array.from(this.statusSets[status]));
+      }
+    }
+
+    const typed = query.type ? this.types.get(query.type) || new Set<string>() : null;
+
+    return ids.filter(id => {
+      if (typed && !typed.has(id)) return false;
+
+      return query.queue === undefined || this.workers.peek(id)!.queue === query.queue;
+    });
+  }
+
+  private aggregate(query: WorkerQuery = { status: PROGRESS_STATUSES }) {
+    const workers = this.lookup(query).map(id => this.workers.peek(id)!);
+
+    return measure(select(workers, query));
+  }
+
+  public async list(query: WorkerQuery = {}) {
+    const workers = await Promise.all(this.lookup(query).map(id => this.get(id)));
+
+    return select(workers, query);
+  }
+
+  public async count(query: WorkerQuery = {}) {
+    const { status, type, queue, filter } = query;
+
+    // by index size, no need to get workers
+    if (!filter && !type && queue === undefined) {
+      const statuses = status === undefined
+        ? Object.keys(this.statusSets) as STATUS[]
+        : ([] as STATUS[]).concat(status);
+
+      return statuses.reduce((count, e) => count + this.statusSets[e].size, 0);
+    }
+
+    if (!filter) {
+      return this.lookup(query).length;
+    }
+
+    return (await this.list({ status, type, queue, filter })).length;
+  }
+
+  public async stats() {
+    const status = {} as Record<STATUS, number>;
+    let total = 0;
+
+    for (const key of Object.keys(this.statusSets) as STATUS[]) {
+      status[key] = this.statusSets[key].size;
+      total += status[key];
+    }
+
+    const queues: Record<string, QueueStats> = {};
+    for (const name in this.groups) {
+      const group = this.groups[name];
+
+      queues[name] = {
+        concurrency: group.concurrency,
+        running: group.running + group.starting,
+        pending: 0,
+        paused: group.paused,
+      };
+    }
+
+    for (const id of this.queue[STATUS.PENDING].toArray()) {
+      queues[this.workers.peek(id)!.queue].pending += 1;
+    }
+
+    const stats: MasterStats = {
+      total,
+      status,
+      running: this.running + this.starting,
+      concurrency: this.groups[DEFAULT_QUEUE].concurrency,
+      maxConcurrency: this.maxConcurrency,
+      queue: this.queue[STATUS.PENDING].size(),
+      queues,
+    };
+
+    return stats;
+  }
+
+  public async progress(query?: WorkerQuery) {
+    return this.aggregate(query);
+  }
+}
@@ -1,5 +1,11 @@
 import { Event } from '@zodash/event';
-import { IWorker, Worker } from './worker';
+import { STATUS } from './types';
+import { IWorker } from './worker';
+import { clock } from './clock';
+import { WorkerClass } from './registry';
+
+// settled workers, the only ones could be evicted
+const FINISHED = [STATUS.COMPLETE, STATUS.ERROR, STATUS.TIMEOUT, STATUS.CANCELLED];
 
 export interface IPool {
   /**
@@ -8,7 +14,14 @@ export interface IPool {
    * @param W Worker Class
    * @param options Worker Options
    */
-  create<P>(W: IWorker<P>, options: P): Promise<IWorker<P>>;
+  create<P>(W: WorkerClass<P>, options: P): Promise<IWorker<P>>;
+
+  /**
+   * Add Worker Instance Into Pool
+   * 
+   * @param worker worker instance
+   */
+  add<P>(worker: IWorker<P>): Promise<IWorker<P>>;
 
   /**
    * Get Worker From Pool
@@ -17,6 +30,13 @@ export interface IPool {
    */
   get<P>(id: string): Promise<IWorker<P>>;
 
+  /**
+   * Get Worker From Pool synchronously, without 'get' event
+   * 
+   * @param id worker id
+   */
+  peek<P>(id: string): IWorker<P> | null;
+
   /**
    * Remove Worker From Pool
    * 
@@ -35,27 +55,156 @@ export interface IPool {
   map(fn: (worker: IWorker) => any): IWorker[]; 
 }
 
+/**
+ * What happens when the pool is full
+ *  reject: reject new workers
+ *  evict-oldest: evict the oldest finished worker, reject if none
+ *  ttl: remove COMPLETE workers after ttl, reject if still full
+ */
+export type PoolPolicy = 'reject' | 'evict-oldest' | 'ttl';
+
 export interface PoolOptions {
   capacity: number;
+
+  /**
+   * @default reject
+   */
+  policy?: PoolPolicy;
+
+  /**
+   * Time to live of COMPLETE workers, ms, for ttl policy
+   */
+  ttl?: number;
+
+  /**
+   * Whether the finished worker could be evicted, such as not depended by others
+   */
+  evictable?: (worker: IWorker) => boolean;
 }
 
 export class Pool extends Event implements IPool {
   private cache: Record<string, IWorker> = {};
 
+  // ttl timers of COMPLETE workers
+  private readonly expires: Record<string, any> = {};
+  // status listeners for ttl, off when worker leaves
+  private readonly watchers: Record<string, (...args: any[]) => void> = {};
+
   constructor(public readonly options: PoolOptions) {
     super();
   }
 
-  public async create<P>(W: Worker<P>, options: P) {
+  public async create<P>(W: WorkerClass<P>, options: P) {
     const worker = new (W as any)(options);
     
-    this.cache[worker.id] = worker;
+    await this.add(worker);
 
     this.emit('create', worker);
 
     return worker; // @TODO
   }
 
+  public async add<P>(worker: IWorker<P>) {
+    if (this.cache[worker.id]) {
+      throw new Error(`Worker(${worker.id}) already exists in Pool`);
+    }
+
+    if (this.size >= this.options.capacity) {
+      this.admit(worker);
+    }
+
+    this.cache[worker.id] = worker;
+
+    if (this.options.policy === 'ttl') {
+      this.watch(worker);
+    }
+
+    return worker;
+  }
+
+  public get size() {
+    return Object.keys(this.cache).length;
+  }
+
+  // make room for the new worker, or reject it
+  private admit(worker: IWorker) {
+    const oldest = this.options.policy === 'evict-oldest' ? this.oldest() : null;
+
+    if (!oldest) {
+      this.emit('reject', worker);
+
+      throw new Error(`Pool is full (capacity: ${this.options.capacity}), Worker(${worker.id}) rejected`);
+    }
+
+    this.evict(oldest);
+  }
+
+  // the finished worker which settled earliest
+  private oldest() {
+    let oldest: IWorker | null = null;
+
+    for (const id in this.cache) {
+      const worker = this.cache[id];
+      if (!this.isEvictable(worker)) continue;
+
+      if (!oldest || worker.updatedAt < oldest.updatedAt) {
+        oldest = worker;
+      }
+    }
+
+    return oldest;
+  }
+
+  private isEvictable(worker: IWorker) {
+    if (!FINISHED.includes(worker.status)) {
+      return false;
+    }
+
+    return !this.options.evictable || this.options.evictable(worker);
+  }
+
+  private evict(worker: IWorker) {
+    this.unwatch(worker);
+
+    delete this.cache[worker.id];
+
+    this.emit('evict', worker);
+  }
+
+  // remove COMPLETE worker after ttl, restart if completes again
+  private watch(worker: IWorker) {
+    const watcher = () => {
+      clock.clearTimeout(this.expires[worker.id]);
+      delete this.expires[worker.id];
+
+      if (worker.status !== STATUS.COMPLETE || !this.options.ttl) return ;
+
+      this.expires[worker.id] = clock.setTimeout(() => {
+        delete this.expires[worker.id];
+
+        if (this.cache[worker.id] === worker && this.isEvictable(worker)) {
+          this.evict(worker);
+        }
+      }, this.options.ttl);
+    };
+
+    this.watchers[worker.id] = watcher;
+    worker.on('update:status', watcher);
+
+    // restored COMPLETE
+    watcher();
+  }
+
+  private unwatch(worker: IWorker) {
+    clock.clearTimeout(this.expires[worker.id]);
+    delete this.expires[worker.id];
+
+    if (this.watchers[worker.id]) {
+      worker.off('update:status', this.watchers[worker.id]);
+      delete this.watchers[worker.id];
+    }
+  }
+
   public async get<P>(id: string): Promise<IWorker<P>> {
     const worker = this.cache[id] || null;
 
@@ -64,11 +213,19 @@ export class Pool extends Event implements IPool {
     return worker;
   }
 
+  public peek<P>(id: string): IWorker<P> | null {
+    return this.cache[id] || null;
+  }
+
   public async remove(id: string) {
     const worker = this.cache[id];
 
     this.emit('remove', worker);
 
+    if (worker) {
+      this.unwatch(worker);
+    }
+
     delete this.cache[id];
   }
 
@@ -76,6 +233,7 @@ export class Pool extends Event implements IPool {
     this.emit('clear');
 
     for (const id in this.cache) {
+      this.unwatch(this.cache[id]);
       delete this.cache[id];
     }
   }
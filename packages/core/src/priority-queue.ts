@@ -0,0 +1,137 @@
+interface Item<T> {
+  value: T;
+  priority: number;
+  // enqueue order, keep FIFO for same priority
+  seq: number;
+}
+
+export interface IPriorityQueue<T> {
+  /**
+   * Enqueue value with priority, higher priority dequeue first
+   * 
+   * @param value value
+   * @param priority priority weight
+   */
+  enqueue(value: T, priority?: number): void;
+
+  /**
+   * Dequeue value with the highest priority
+   */
+  dequeue(): T | undefined;
+
+  /**
+   * Peek value with the highest priority
+   */
+  peek(): T | undefined;
+
+  /**
+   * Remove specific value
+   * 
+   * @param value value
+   */
+  remove(value: T): boolean;
+
+  /**
+   * Update priority of value in place
+   * 
+   * @param value value
+   * @param priority priority weight
+   */
+  update(value: T, priority: number): boolean;
+
+  has(value: T): boolean;
+
+  size(): number;
+
+  isEmpty(): boolean;
+
+  toArray(): T[];
+}
+
+/**
+ * Priority Queue, sorted by priority desc, then FIFO
+ */
+export class PriorityQueue<T> implements IPriorityQueue<T> {
+  private items: Item<T>[] = [];
+  private seq = 0;
+
+  public enqueue(value: T, priority = 0) {
+    this.insert({ value, priority, seq: this.seq++ });
+  }
+
+  public dequeue() {
+    const item = this.items.shift();
+    return item && item.value;
+  }
+
+  public peek() {
+    const item = this.items[0];
+    return item && item.value;
+  }
+
+  public remove(value: T) {
+    const index = this.indexOf(value);
+    if (index === -1) {
+      return false;
+    }
+
+    this.items.splice(index, 1);
+    return true;
+  }
+
+  public update(value: T, priority: number) {
+    const index = this.indexOf(value);
+    if (index === -1) {
+      return false;
+    }
+
+    const [item] = this.items.splice(index, 1);
+    this.insert({ ...item, priority });
+    return true;
+  }
+
+  public has(value: T) {
+    return this.indexOf(value) !== -1;
+  }
+
+  public size() {
+    return this.items.length;
+  }
+
+  public isEmpty() {
+    return this.items.length === 0;
+  }
+
+  public toArray() {
+    return this.items.map(item => item.value);
+  }
+
+  private indexOf(value: T) {
+    for (let i = 0; i < this.items.length; ++i) {
+      if (this.items[i].value === value) {
+        return i;
+      }
+    }
+
+    return -1;
+  }
+
+  // binary search the first item ranked after the new one
+  private insert(item: Item<T>) {
+    let low = 0;
+    let high = this.items.length;
+
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      const current = this.items[middle];
+
+      if (current.priority > item.priority || (current.priority === item.priority && current.seq < item.seq)) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    this.items.splice(low, 0, item);
+  }
+}
@@ -0,0 +1,177 @@
+import { STATUS } from './types';
+import { IWorker } from './worker';
+import { WorkerClass } from './registry';
+
+export type SortKey = 'createdAt' | 'updatedAt' | 'progress';
+
+export interface WorkerQuery {
+  /**
+   * Only workers in the status(es)
+   */
+  status?: STATUS | STATUS[];
+
+  /**
+   * Only workers created by the class, subclasses not included
+   */
+  type?: WorkerClass;
+
+  /**
+   * Only workers in the named queue
+   */
+  queue?: string;
+
+  /**
+   * Custom predicate, applied after status and type
+   */
+  filter?: (worker: IWorker) => boolean;
+
+  /**
+   * Sort by key, PENDING workers keep queue order if not given
+   */
+  sort?: SortKey;
+
+  /**
+   * @default asc
+   */
+  order?: 'asc' | 'desc';
+
+  /**
+   * @default 0
+   */
+  offset?: number;
+
+  /**
+   * @default Infinity
+   */
+  limit?: number;
+}
+
+export interface MasterStats {
+  /**
+   * Count of all workers in pool
+   */
+  total: number;
+
+  /**
+   * Count of workers per status
+   */
+  status: Record<STATUS, number>;
+
+  /**
+   * Count of RUNNING workers, including dispatched but not started
+   */
+  running: number;
+
+  /**
+   * Concurrency of default queue
+   */
+  concurrency: number;
+
+  /**
+   * Concurrency cap of all queues
+   */
+  maxConcurrency: number;
+
+  /**
+   * Count of PENDING workers waiting for a slot
+   */
+  queue: number;
+
+  /**
+   * Stats per named queue
+   */
+  queues: Record<string, QueueStats>;
+}
+
+export interface QueueStats {
+  concurrency: number;
+  running: number;
+  pending: number;
+  paused: boolean;
+}
+
+/**
+ * Filter, sort and paginate workers picked from indexes
+ *
+ * @param workers workers
+ * @param query query
+ */
+export function select(workers: IWorker[], query: WorkerQuery) {
+  const { filter, sort, order = 'asc', offset = 0, limit = Infinity } = query;
+
+  let result = filter ? workers.filter(filter) : workers;
+
+  if (sort) {
+    const direction = order === 'desc' ? -1 : 1;
+
+    // copy, keep index order of the source
+    result = result.slice().sort((a, b) => (+a[sort] - +b[sort]) * direction);
+  }
+
+  return result.slice(offset, offset + limit);
+}
+
+export interface MasterProgress {
+  /**
+   * Total bytes
+   */
+  total: number;
+
+  /**
+   * Bytes done
+   */
+  loaded: number;
+
+  /**
+   * loaded / total, 0 ~ 1
+   */
+  progress: number;
+
+  /**
+   * Combined speed of RUNNING workers, bytes per second
+   */
+  speed: number;
+
+  /**
+   * Seconds to finish all remaining bytes, Infinity if nothing running
+   */
+  estimatedTimeToArrival: number;
+}
+
+/**
+ * Aggregate progress of workers
+ *
+ * @param workers workers
+ */
+export function measure(workers: IWorker[]): MasterProgress {
+  let total = 0;
+  let loaded = 0;
+  let speed = 0;
+
+  for (const worker of workers) {
+    total += worker.size;
+    loaded += worker.size * worker.progress;
+    speed += worker.speed;
+  }
+
+  return summarize(total, loaded, speed);
+}
+
+/**
+ * Progress of bytes counted already
+ *
+ * @param total total bytes
+ * @param loaded bytes done
+ * @param speed bytes per second
+ */
+export function summarize(total: number, loaded: number, speed: number): MasterProgress {
+  const rest = total - loaded;
+
+  return {
+    total,
+    loaded,
+    progress: total ? loaded / total : 0,
+    speed,
+    estimatedTimeToArrival: rest <= 0 ? 0 : speed ? rest / speed : Infinity,
+  };
+}
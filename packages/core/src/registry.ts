@@ -0,0 +1,65 @@
+import { Worker } from './worker';
+
+export type WorkerClass<P = any> = new (options: P) => Worker<P>;
+
+export interface IRegistry {
+  /**
+   * Register Worker Class with unique name
+   * 
+   * @param name worker class name
+   * @param W Worker Class
+   */
+  register<P>(name: string, W: WorkerClass<P>): this;
+
+  /**
+   * Get Worker Class by name
+   * 
+   * @param name worker class name
+   */
+  get<P>(name: string): WorkerClass<P>;
+
+  /**
+   * Get the registered name of Worker Class
+   * 
+   * @param W Worker Class
+   */
+  nameOf(W: Function): string;
+}
+
+export class Registry implements IRegistry {
+  private readonly classes: Record<string, WorkerClass> = {};
+
+  public register<P>(name: string, W: WorkerClass<P>) {
+    if (this.classes[name] && this.classes[name] !== W) {
+      throw new Error(`Worker Class(${name}) was already registered`);
+    }
+
+    this.classes[name] = W;
+    return this;
+  }
+
+  public get<P>(name: string): WorkerClass<P> {
+    const W = this.classes[name];
+
+    if (!W) {
+      throw new Error(`Worker Class(${name}) was not registered`);
+    }
+
+    return W;
+  }
+
+  public nameOf(W: Function) {
+    for (const name in this.classes) {
+      if (this.classes[name] === W) {
+        return name;
+      }
+    }
+
+    throw new Error(`Worker Class(${W.name}) was not registered, please register it first.`);
+  }
+}
+
+/**
+ * Default Registry, used by Master if no registry given
+ */
+export const registry = new Registry();
@@ -0,0 +1,80 @@
+import { IWorker } from './worker';
+
+export interface RetryPolicy {
+  /**
+   * Max attempts, including the first run
+   * 
+   * @default 1 (no retry)
+   */
+  attempts?: number;
+
+  /**
+   * Backoff delay before the first retry, ms
+   * 
+   * @default 1000
+   */
+  delay?: number;
+
+  /**
+   * Exponential factor of backoff delay
+   * 
+   * @default 2
+   */
+  factor?: number;
+
+  /**
+   * Max backoff delay, ms
+   * 
+   * @default 30000
+   */
+  maxDelay?: number;
+
+  /**
+   * Random ratio (0 ~ 1) of backoff delay, avoid retry at the same time
+   * 
+   * @default 0.5
+   */
+  jitter?: number;
+
+  /**
+   * Whether the error is retryable, null error means timeout
+   *  such as retry 5xx but not 4xx: error => !error || !error.status || error.status >= 500
+   * 
+   * @default retry all
+   */
+  retryable?(error: Error | null, worker: IWorker): boolean;
+}
+
+/**
+ * Whether should retry after the attempt failed
+ * 
+ * @param policy retry policy
+ * @param error error, null means timeout
+ * @param worker failed worker
+ */
+export function shouldRetry(policy: RetryPolicy, error: Error | null, worker: IWorker) {
+  const attempts = policy.attempts || 1;
+
+  if (worker.attempts >= attempts) {
+    return false;
+  }
+
+  return policy.retryable ? !!policy.retryable(error, worker) : true;
+}
+
+/**
+ * Backoff delay with jitter, ms
+ * 
+ * @param policy retry policy
+ * @param attempts attempts already made
+ */
+export function backoff(policy: RetryPolicy, attempts: number) {
+  const delay = policy.delay === undefined ? 1000 : policy.delay;
+  const factor = policy.factor === undefined ? 2 : policy.factor;
+  const maxDelay = policy.maxDelay === undefined ? 30000 : policy.maxDelay;
+  const jitter = policy.jitter === undefined ? 0.5 : Math.min(Math.max(policy.jitter, 0), 1);
+
+  const exponential = Math.min(delay * Math.pow(factor, Math.max(attempts - 1, 0)), maxDelay);
+
+  return Math.round(exponential * (1 - jitter * Math.random()));
+}
@@ -0,0 +1,48 @@
+import { STATUS } from './types';
+
+/**
+ * Snapshot format version,
+ *  bump it when the format changes.
+ */
+export const SNAPSHOT_VERSION = 1;
+
+export interface WorkerSnapshot<P = any> {
+  /**
+   * Worker Class Name, registered in Registry
+   */
+  name: string;
+  id: string;
+  options: P;
+  status: STATUS;
+  progress: number;
+  priority: number;
+  /**
+   * ms, null means follow master
+   */
+  timeout?: number | null;
+  /**
+   * queue name, default queue if not given
+   */
+  queue?: string;
+  /**
+   * worker ids which should be COMPLETE before run
+   */
+  dependsOn?: string[];
+  /**
+   * timestamp, ms
+   */
+  createdAt: number;
+  /**
+   * timestamp, ms
+   */
+  updatedAt: number;
+}
+
+export interface Snapshot {
+  version: number;
+  /**
+   * timestamp, ms
+   */
+  createdAt: number;
+  workers: WorkerSnapshot[];
+}
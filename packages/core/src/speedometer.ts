@@ -0,0 +1,76 @@
+import { clock } from './clock';
+
+export interface ISpeedometer {
+  /**
+   * Current speed, per second
+   */
+  readonly speed: number;
+
+  /**
+   * Start measuring from value
+   *
+   * @param value value at start, such as bytes already done
+   */
+  reset(value?: number): void;
+
+  /**
+   * Record current value
+   *
+   * @param value accumulated value, such as bytes done
+   */
+  record(value: number): void;
+}
+
+interface Sample {
+  time: number;
+  value: number;
+}
+
+/**
+ * Speedometer measures speed in a sliding window,
+ *  so it is the current throughput rather than lifetime average
+ */
+export class Speedometer implements ISpeedometer {
+  private samples: Sample[] = [];
+
+  /**
+   * @param window sliding window, ms
+   */
+  constructor(public readonly window = 3000) {}
+
+  public get speed() {
+    const now = clock.now();
+    this.shrink(now);
+
+    if (!this.samples.length) {
+      return 0;
+    }
+
+    const first = this.samples[0];
+    const last = this.samples[this.samples.length - 1];
+
+    // till now, speed drops when stalled
+    const time = (now - first.time) / 1000;
+    return time > 0 ? (last.value - first.value) / time : 0;
+  }
+
+  public reset(value = 0) {
+    this.samples = [{ time: clock.now(), value }];
+  }
+
+  public record(value: number) {
+    // not started
+    if (!this.samples.length) return ;
+
+    const now = clock.now();
+    this.samples.push({ time: now, value });
+    this.shrink(now);
+  }
+
+  // keep the last sample before window as baseline
+  private shrink(now: number) {
+    while (this.samples.length > 1 && now - this.samples[1].time >= this.window) {
+      this.samples.shift();
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import { Snapshot } from './snapshot';
+
+export interface IStorage {
+  /**
+   * Save Snapshot
+   * 
+   * @param snapshot snapshot
+   */
+  save(snapshot: Snapshot): Promise<void>;
+
+  /**
+   * Load Snapshot, null if nothing saved
+   */
+  load(): Promise<Snapshot | null>;
+
+  /**
+   * Clear Snapshot
+   */
+  clear(): Promise<void>;
+}
+
+/**
+ * Key Value Store, such as localStorage, sessionStorage,
+ *  or IndexedDB wrappers (localforage) whose methods return promise.
+ */
+export interface KeyValueStore {
+  getItem(key: string): any;
+  setItem(key: string, value: any): any;
+  removeItem(key: string): any;
+}
+
+export interface KeyValueStorageOptions {
+  /**
+   * Storage Key
+   * 
+   * @default zoupdown
+   */
+  key?: string;
+
+  /**
+   * Serialize snapshot as JSON string,
+   *  disable it when store supports structured clone (IndexedDB), then File can be kept.
+   * 
+   * @default true
+   */
+  serialize?: boolean;
+}
+
+export interface FileStorageOptions {
+  /**
+   * File Path
+   */
+  path: string;
+}
+
+/**
+ * Memory Storage, snapshot lives as long as the storage instance
+ */
+export class MemoryStorage implements IStorage {
+  private snapshot: Snapshot | null = null;
+
+  public async save(snapshot: Snapshot) {
+    this.snapshot = snapshot;
+  }
+
+  public async load() {
+    return this.snapshot;
+  }
+
+  public async clear() {
+    this.snapshot = null;
+  }
+}
+
+/**
+ * Key Value Storage, for localStorage / IndexedDB style store
+ */
+export class KeyValueStorage implements IStorage {
+  private readonly key = this.options.key || 'zoupdown';
+  private readonly serialize = this.options.serialize !== false;
+
+  constructor(private readonly store: KeyValueStore, public readonly options: KeyValueStorageOptions = {}) {}
+
+  public async save(snapshot: Snapshot) {
+    await this.store.setItem(this.key, this.serialize ? JSON.stringify(snapshot) : snapshot);
+  }
+
+  public async load(): Promise<Snapshot | null> {
+    const value = await this.store.getItem(this.key);
+
+    if (value === null || value === undefined) {
+      return null;
+    }
+
+    return this.serialize ? JSON.parse(value) : value;
+  }
+
+  public async clear() {
+    await this.store.removeItem(this.key);
+  }
+}
+
+/**
+ * File Storage, Node.js only
+ */
+export class FileStorage implements IStorage {
+  constructor(public readonly options: FileStorageOptions) {}
+
+  // lazy require, keep browser bundle away from fs
+  private get fs() {
+    return require('fs');
+  }
+
+  public async save(snapshot: Snapshot) {
+    return new Promise<void>((resolve, reject) => {
+      this.fs.writeFile(this.options.path, JSON.stringify(snapshot), 'utf8', (error) => {
+        if (error) return reject(error);
+
+        return resolve();
+      });
+    });
+  }
+
+  public async load() {
+    return new Promise<Snapshot | null>((resolve, reject) => {
+      this.fs.readFile(this.options.path, 'utf8', (error, text) => {
+        if (error) {
+          if (error.code === 'ENOENT') return resolve(null);
+
+          return reject(error);
+        }
+
+        return resolve(JSON.parse(text));
+      });
+    });
+  }
+
+  public async clear() {
+    return new Promise<void>((resolve, reject) => {
+      this.fs.unlink(this.options.path, (error) => {
+        if (error && error.code !== 'ENOENT') return reject(error);
+
+        return resolve();
+      });
+    });
+  }
+}
@@ -0,0 +1,124 @@
+import { clock } from './clock';
+
+export interface IThrottle {
+  /**
+   * Bytes per second, 0 means unlimited
+   */
+  readonly rate: number;
+
+  /**
+   * Change rate at runtime
+   * 
+   * @param rate bytes per second, 0 means unlimited
+   */
+  setRate(rate: number): void;
+
+  /**
+   * Wait until the bytes can be sent
+   * 
+   * @param bytes bytes to send
+   */
+  consume(bytes: number): Promise<void>;
+}
+
+interface Waiter {
+  bytes: number;
+  resolve(): void;
+}
+
+/**
+ * Token Bucket, shared by workers
+ *  requests are served in pieces FIFO, so each worker gets a fair share
+ */
+export class TokenBucket implements IThrottle {
+  private tokens = 0;
+  private updatedAt = clock.now();
+  private readonly waiters: Waiter[] = [];
+  private timer: any = null;
+
+  constructor(public readonly rate: number = 0) {
+    this.tokens = rate;
+  }
+
+  // 1s burst at most
+  private get capacity() {
+    return this.rate;
+  }
+
+  // piece size, 1/10 second
+  private get quantum() {
+    return Math.max(Math.floor(this.rate / 10), 1);
+  }
+
+  public setRate(rate: number) {
+    if (rate < 0) {
+      throw new Error('Rate cannot be less than 0');
+    }
+
+    this.refill();
+    (this as any).rate = rate;
+    this.tokens = Math.min(this.tokens, this.capacity);
+
+    this.reschedule();
+  }
+
+  public async consume(bytes: number) {
+    let rest = bytes;
+
+    while (rest > 0) {
+      if (!this.rate) return ;
+
+      const piece = Math.min(rest, this.quantum);
+      await this.take(piece);
+      rest -= piece;
+    }
+  }
+
+  private take(bytes: number) {
+    return new Promise<void>((resolve) => {
+      this.waiters.push({ bytes, resolve });
+      this.drain();
+    });
+  }
+
+  private refill() {
+    const now = clock.now();
+    this.tokens = Math.min(this.tokens + (now - this.updatedAt) / 1000 * this.rate, this.capacity);
+    this.updatedAt = now;
+  }
+
+  private drain() {
+    this.refill();
+
+    while (this.waiters.length) {
+      const waiter = this.waiters[0];
+
+      // unlimited now, or enough tokens
+      if (this.rate && this.tokens < Math.min(waiter.bytes, this.capacity)) break;
+
+      this.waiters.shift();
+      this.tokens -= Math.min(waiter.bytes, this.capacity);
+      waiter.resolve();
+    }
+
+    this.reschedule();
+  }
+
+  // wake up when tokens are enough for the first waiter, no timer when idle
+  private reschedule() {
+    clock.clearTimeout(this.timer);
+    this.timer = null;
+
+    if (!this.waiters.length) return ;
+
+    if (!this.rate) {
+      return this.drain();
+    }
+
+    const deficit = Math.min(this.waiters[0].bytes, this.capacity) - this.tokens;
+    this.timer = clock.setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, Math.max(Math.ceil(deficit / this.rate * 1000), 0));
+  }
+}
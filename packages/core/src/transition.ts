@@ -0,0 +1,41 @@
+import { STATUS } from './types';
+
+/**
+ * Legal transitions of worker status, from => to
+ */
+export const TRANSITIONS: Record<STATUS, STATUS[]> = {
+  // run directly without master is allowed
+  [STATUS.INITIALED]: [STATUS.WAITING, STATUS.PENDING, STATUS.RUNNING, STATUS.CANCELLED],
+  // dependency failed => ERROR
+  [STATUS.WAITING]: [STATUS.PENDING, STATUS.ERROR, STATUS.CANCELLED],
+  // failed before handle, such as beforeRun hook => ERROR
+  [STATUS.PENDING]: [STATUS.RUNNING, STATUS.ERROR, STATUS.CANCELLED, STATUS.PAUSED],
+  [STATUS.RUNNING]: [STATUS.COMPLETE, STATUS.ERROR, STATUS.TIMEOUT, STATUS.CANCELLED, STATUS.PAUSED],
+  [STATUS.PAUSED]: [STATUS.PENDING, STATUS.CANCELLED],
+  // finished, execute again or retry
+  [STATUS.COMPLETE]: [STATUS.WAITING, STATUS.PENDING],
+  [STATUS.ERROR]: [STATUS.WAITING, STATUS.PENDING],
+  [STATUS.TIMEOUT]: [STATUS.WAITING, STATUS.PENDING],
+  [STATUS.CANCELLED]: [STATUS.WAITING, STATUS.PENDING],
+};
+
+export interface Transition {
+  from: STATUS;
+  to: STATUS;
+  at: Date;
+}
+
+/**
+ * Thrown by illegal status transition
+ */
+export class TransitionError extends Error {
+  public readonly name = 'TransitionError';
+
+  constructor(public readonly id: string, public readonly from: STATUS, public readonly to: STATUS) {
+    super(`Worker(${id}) cannot transition from ${from} to ${to}`);
+  }
+}
+
+export function canTransition(from: STATUS, to: STATUS) {
+  return TRANSITIONS[from].includes(to);
+}
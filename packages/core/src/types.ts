@@ -1,6 +1,7 @@
 
 export enum STATUS {
   INITIALED = 'INITIALED',
+  WAITING = 'WAITING', // waiting for dependencies
   PENDING = 'PENDING',
   RUNNING = 'RUNNING',
   COMPLETE = 'COMPLETE',
@@ -8,4 +9,17 @@ export enum STATUS {
   TIMEOUT = 'TIMEOUT',
   CANCELLED = 'CANCELLED',
   PAUSED = 'PAUSED',
-}
\ No newline at end of file
+}
+
+// queue of workers created without queue name
+export const DEFAULT_QUEUE = 'default';
+
+/**
+ * Structural AbortSignal, so public types do not depend on DOM lib
+ *  AbortSignal of browsers and Node.js both match it
+ */
+export interface ISignal {
+  readonly aborted: boolean;
+  addEventListener(type: 'abort', listener: () => void): void;
+  removeEventListener(type: 'abort', listener: () => void): void;
+}
@@ -1,12 +1,25 @@
 import { uuid } from '@zodash/uuid';
 
-import { STATUS } from './types';
-
-let uniqueId = 0;
-
-export type WorkerCallback<P> = (error: Error | null, worker: Worker<P>) => void;
-
-export interface IWorker<P = any> {
+import { STATUS, DEFAULT_QUEUE, ISignal } from './types';
+import { WorkerSnapshot } from './snapshot';
+import { RetryPolicy } from './retry';
+import { IThrottle } from './throttle';
+import { WorkerEventMap, WorkerListener } from './events';
+import { Speedometer } from './speedometer';
+import { IPool } from './pool';
+import { Hooks, HookName, callHooks } from './hooks';
+import { Transition, TransitionError, canTransition } from './transition';
+import { clock } from './clock';
+
+export type WorkerCallback<P> = WorkerListener<Worker<P>, any>;
+
+// events which settle the worker
+const SETTLE_EVENTS = ['complete', 'error', 'timeout', 'cancel'];
+
+// transitions kept in history, the oldest dropped
+const MAX_HISTORY = 50;
+
+export interface IWorker<P = any, E extends WorkerEventMap = WorkerEventMap> {
   new?(options: P): P;
   readonly options: P;
 
@@ -14,31 +27,81 @@ export interface IWorker<P = any> {
   readonly status: STATUS;
   readonly prevStatus: STATUS;
   readonly progress: number;
+  readonly size: number;
   readonly speed: number;
+  readonly priority: number;
+  readonly timeout: number | null;
+  readonly queue: string;
+  readonly retryPolicy: RetryPolicy | null;
+  readonly attempts: number;
+  readonly history: Transition[];
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
 
   pending(): Promise<void>;
+  wait(): Promise<void>;
   run(): Promise<void>;
   cancel(): Promise<void>;
   pause(): Promise<void>;
   resume(): Promise<void>;
-
-  on(event: string, cb: WorkerCallback<P>): void;
-  emit(event: string | string[], error?: Error): void;
-  off(event: string, cb: WorkerCallback<P>): void;
+  restore(snapshot: WorkerSnapshot<P>): void;
+  setPriority(priority: number): void;
+  setTimeout(timeout: number | null): void;
+  setQueue(queue: string): void;
+  setRetryPolicy(policy: RetryPolicy | null): void;
+  setThrottle(throttle: IThrottle | null): void;
+  setPool(pool: IPool | null): void;
+  setHooks(hooks: Hooks[]): void;
+  use(hooks: Hooks<any>): this;
+  retry(): Promise<void>;
+  expire(): Promise<void>;
+
+  on<K extends keyof E>(event: K, cb: WorkerListener<this, E[K]>): this;
+  once<K extends keyof E>(event: K, cb: WorkerListener<this, E[K]>): this;
+  off<K extends keyof E>(event: K, cb: WorkerListener<this, E[K]>): this;
+  emit<K extends keyof E>(event: K | K[], error?: Error | null, data?: E[K]): this;
 }
 
-export abstract class Worker<P = any> implements IWorker<P> {
-  private readonly listeners: Record<string, WorkerCallback<P>[]> = {};
+export abstract class Worker<P = any, E extends WorkerEventMap = WorkerEventMap> implements IWorker<P, E> {
+  private readonly listeners: Record<string, Function[]> = {};
 
   // worker
-  public readonly id = 'worker-' + uniqueId++; // uuid();
+  public readonly id: string = uuid();
   public readonly prevStatus: STATUS | null = null;
   public readonly status: STATUS = STATUS.INITIALED;
   public readonly progress = 0;
-  // public readonly speed: number = 0;
+  public readonly priority: number = 0;
+  // ms, null means follow master
+  public readonly timeout: number | null = null;
+  // named queue in master, scheduled with its concurrency
+  public readonly queue: string = DEFAULT_QUEUE;
+  // null means follow master
+  public readonly retryPolicy: RetryPolicy | null = null;
+  // runs of current execution, resume not included
+  public readonly attempts = 0;
+  // latest status transitions, for debugging
+  public readonly history: Transition[] = [];
+  // bandwidth shared with other workers, set by master
+  public readonly throttle: IThrottle | null = null;
+  // workers in the same master, set by master, such as finding duplicates
+  public readonly pool: IPool | null = null;
+  // speed of current run, measured since RUNNING
+  private readonly speedometer = new Speedometer();
   // mtime
-  public readonly createdAt = new Date();
-  public readonly updatedAt = new Date();
+  public readonly createdAt = new Date(clock.now());
+  public readonly updatedAt = new Date(clock.now());
+
+  // hooks of master, set by master
+  private sharedHooks: Hooks[] = [];
+  private readonly ownHooks: Hooks<any>[] = [];
+
+  // signal of current run, aborted when the run stops
+  private controller: AbortController | null = null;
+
+  // paused by suspend(), should continue() instead of handle()
+  private suspended = false;
+  // resumed from paused, not a new attempt
+  private resumed = false;
 
   constructor(public readonly options: P) {
     this.on('run', () => {
@@ -52,10 +115,12 @@ export abstract class Worker<P = any> implements IWorker<P> {
         // finish
         this.emit(['update', 'finish']);
       })
-      .on('error', () => {
+      .on('error', (error) => {
         this.setStatus(STATUS.ERROR);
         // this.setProgress(0);
 
+        this.notify('onError', error);
+
         // finish
         this.emit(['update', 'finish']);
       })
@@ -80,47 +145,86 @@ export abstract class Worker<P = any> implements IWorker<P> {
         // this.emit('finish');
       })
       .on('resume', () => {
-        this.setStatus(STATUS.RUNNING);
+        // back to queue, wait for next run, which continues the paused run if any
+        if (this.prevStatus === STATUS.RUNNING) {
+          this.resumed = true;
+        }
+        this.setStatus(STATUS.PENDING);
+
+        this.emit('update');
+      })
+      .on('finish', () => {
+        this.notify('onFinish');
       });
   }
 
-  public emit(event: string | string[], error?: Error) {
-    const events = Array.isArray(event) ? event : [event];
+  public emit<K extends keyof E>(event: K | K[], error?: Error | null, data?: E[K]) {
+    const events = (Array.isArray(event) ? event : [event]) as string[];
+
+    // already settled or paused, ignore late events, such as 'cancel' by abort() after timeout
+    if (![STATUS.WAITING, STATUS.PENDING, STATUS.RUNNING].includes(this.status)) {
+      return this.dispatch(events.filter(e => !SETTLE_EVENTS.includes(e)), error, data);
+    }
+
+    return this.dispatch(events, error, data);
+  }
 
+  private dispatch(events: string[], error?: Error | null, data?: any) {
     for (const event of events) {
       if (!this.listeners[event]) continue;
       
-      this.listeners[event].forEach(cb => {
-        cb(error || null, this);
+      // copy, listener may off itself
+      this.listeners[event].slice().forEach(cb => {
+        cb(error || null, this, data);
       });
     }
 
     return this;
   }
 
-  public on(event: string, cb: WorkerCallback<P>) {
-    if (!this.listeners[event]) {
-      this.listeners[event] = [];
+  public on<K extends keyof E>(event: K, cb: WorkerListener<this, E[K]>) {
+    const name = event as string;
+
+    if (!this.listeners[name]) {
+      this.listeners[name] = [];
     }
 
-    this.listeners[event].push(cb);
+    this.listeners[name].push(cb);
     return this;
   }
 
-  public off(event: string, cb: WorkerCallback<P>) {
-    if (!this.listeners[event]) {
-      return ;
+  public once<K extends keyof E>(event: K, cb: WorkerListener<this, E[K]>) {
+    const wrapper = (error: Error | null, worker: this, data: E[K]) => {
+      this.off(event, cb);
+      cb(error, worker, data);
+    };
+
+    // off by the original listener
+    (wrapper as any).listener = cb;
+
+    return this.on(event, wrapper);
+  }
+
+  public off<K extends keyof E>(event: K, cb: WorkerListener<this, E[K]>) {
+    const listeners = this.listeners[event as string];
+    if (!listeners) {
+      return this;
+    }
+
+    const index = listeners.findIndex(listener => listener === cb || (listener as any).listener === cb);
+    if (index !== -1) {
+      listeners.splice(index, 1);
     }
 
-    const index = this.listeners[event].indexOf(cb);
-    this.listeners[event].splice(index, 1);
     return this;
   }
 
   public get speed() {
-    const distance = this.size * this.progress;
-    const time = (+new Date() - (+this.createdAt)) / 1000;
-    return distance / time;
+    if (this.status !== STATUS.RUNNING) {
+      return 0;
+    }
+
+    return this.speedometer.speed;
   }
 
   public get estimatedTimeToArrival() {
@@ -130,11 +234,115 @@ export abstract class Worker<P = any> implements IWorker<P> {
 
   protected setProgress(progress: number) {
     (this as any).progress = progress;
+    (this as any).updatedAt = new Date(clock.now());
+
+    if (this.status === STATUS.RUNNING) {
+      this.speedometer.record(this.size * progress);
+    }
+  }
+
+  public setPriority(priority: number) {
+    (this as any).priority = priority;
+    (this as any).updatedAt = new Date(clock.now());
+  }
+
+  public setTimeout(timeout: number | null) {
+    (this as any).timeout = timeout;
+    (this as any).updatedAt = new Date(clock.now());
+  }
+
+  public setQueue(queue: string) {
+    (this as any).queue = queue;
+    (this as any).updatedAt = new Date(clock.now());
+  }
+
+  public setRetryPolicy(policy: RetryPolicy | null) {
+    (this as any).retryPolicy = policy;
+    (this as any).updatedAt = new Date(clock.now());
+  }
+
+  public setThrottle(throttle: IThrottle | null) {
+    (this as any).throttle = throttle;
+  }
+
+  public setPool(pool: IPool | null) {
+    (this as any).pool = pool;
+  }
+
+  public setHooks(hooks: Hooks[]) {
+    this.sharedHooks = hooks;
+  }
+
+  /**
+   * Add hooks of this worker, run after master hooks
+   * 
+   * @param hooks hooks
+   */
+  public use(hooks: Hooks<this>) {
+    this.ownHooks.push(hooks);
+    return this;
+  }
+
+  /**
+   * Call hooks of master then worker, the worker is appended to args
+   *  subclasses call beforeRequest and afterResponse around each request
+   * 
+   * @param name hook name
+   * @param args hook arguments
+   */
+  protected hook(name: HookName, ...args: any[]) {
+    return callHooks([...this.sharedHooks, ...this.ownHooks], name, ...args, this);
+  }
+
+  // notification hooks, failures are ignored
+  private notify(name: HookName, ...args: any[]) {
+    this.hook(name, ...args).catch(() => {});
+  }
+
+  /**
+   * Signal of current run, aborted when cancelled, timeout or paused
+   *  pass it to fetch or stream APIs in handle(), a new one for each run
+   */
+  protected get signal(): ISignal {
+    if (!this.controller) {
+      this.controller = new AbortController();
+    }
+
+    return this.controller.signal;
+  }
+
+  // stop current run by signal, before abort() or suspend()
+  private interrupt() {
+    if (!this.controller) return ;
+
+    this.controller.abort();
+    this.controller = null;
+  }
+
+  /**
+   * Wait for bandwidth before sending bytes, resolve immediately without throttle
+   * 
+   * @param bytes bytes to send
+   */
+  protected async consume(bytes: number) {
+    if (this.throttle) {
+      await this.throttle.consume(bytes);
+    }
   }
 
   protected setStatus(status: STATUS) {
+    if (!canTransition(this.status, status)) {
+      throw new TransitionError(this.id, this.status, status);
+    }
+
     (this as any).prevStatus = this.status;
     (this as any).status = status;
+    (this as any).updatedAt = new Date(clock.now());
+
+    this.history.push({ from: this.prevStatus!, to: status, at: this.updatedAt });
+    if (this.history.length > MAX_HISTORY) {
+      this.history.shift();
+    }
 
     // if not resume, should reset process and speed
     if (this.status === STATUS.PENDING && this.prevStatus !== STATUS.PAUSED) {
@@ -143,6 +351,11 @@ export abstract class Worker<P = any> implements IWorker<P> {
       }
     }
 
+    // bytes done before, such as resumed, not counted
+    if (this.status === STATUS.RUNNING) {
+      this.speedometer.reset(this.size * this.progress);
+    }
+
     this.emit('update:status');
   }
 
@@ -152,53 +365,140 @@ export abstract class Worker<P = any> implements IWorker<P> {
       status: this.status,
       preStatus: this.prevStatus,
       progress: this.progress,
+      attempts: this.attempts,
       speed: this.speed, // === 0 ? '-' : humanFileSize(this.speed.toFixed(2), true) + '/s',
+      history: this.history,
     };
   }
 
+  /**
+   * Restore state from snapshot, used by Master.import
+   *  it will not emit any event, the owner should index the worker itself.
+   * 
+   * @param snapshot worker snapshot
+   */
+  public restore(snapshot: WorkerSnapshot<P>) {
+    const self = this as any;
+
+    self.id = snapshot.id;
+    self.prevStatus = null;
+    self.status = snapshot.status;
+    self.progress = snapshot.progress;
+    self.priority = snapshot.priority;
+    self.timeout = snapshot.timeout === undefined ? null : snapshot.timeout;
+    self.queue = snapshot.queue || DEFAULT_QUEUE;
+    self.createdAt = new Date(snapshot.createdAt);
+    self.updatedAt = new Date(snapshot.updatedAt);
+    self.history = [];
+  }
+
   // functions
   public async pending() {
     if (this.status === STATUS.PENDING) return ;
     if (this.status === STATUS.RUNNING) return ;
 
+    // new execution
+    (this as any).attempts = 0;
+    this.resumed = false;
+
+    this.setStatus(STATUS.PENDING);
+    this.emit('update');
+  }
+
+  /**
+   * Wait for dependencies, then pending
+   */
+  public async wait() {
+    if ([STATUS.WAITING, STATUS.PENDING, STATUS.RUNNING].includes(this.status)) return ;
+
+    this.setStatus(STATUS.WAITING);
+    this.emit('update');
+  }
+
+  /**
+   * Re-queue after ERROR or TIMEOUT, attempts are kept
+   */
+  public async retry() {
+    if (![STATUS.ERROR, STATUS.TIMEOUT].includes(this.status)) return ;
+
     this.setStatus(STATUS.PENDING);
     this.emit('update');
   }
 
   public async run() {
+    if (this.status === STATUS.RUNNING) return ;
+
+    const status = this.status;
+
+    try {
+      // vetoed
+      if (!await this.hook('beforeRun')) {
+        return this.cancel();
+      }
+    } catch (error) {
+      this.emit('error', error);
+      return ;
+    }
+
+    // cancelled or paused during hooks
+    if (this.status !== status) return ;
+
     return new Promise<void>((resolve, reject) => {
-      if (this.status === STATUS.RUNNING) return ;
 
       const self = this;
-      let it = setTimeout(() => {
+      let it = clock.setTimeout(() => {
         return reject(new Error('timeout to run'));
       }, 3000);
 
-      return this
+      this
         .on('run', function done() {
-          clearTimeout(it);
+          clock.clearTimeout(it);
           (it as any) = null;
           
           self.off('run', done);
           return resolve();
-        })
-        .handle();
+        });
+
+      if (this.resumed) {
+        this.resumed = false;
+      } else {
+        (this as any).attempts += 1;
+      }
+
+      // a new signal for this run, created when used
+      this.controller = null;
+
+      // paused by suspend(), continue from where it stopped
+      if (this.suspended && this.continue) {
+        this.suspended = false;
+        return this.continue();
+      }
+
+      return this.handle();
     });
   }
 
   public async cancel() {
     return new Promise<void>((resolve, reject) => {
+      // never run, paused or waiting, nothing in flight, settle directly
+      if ([STATUS.INITIALED, STATUS.PAUSED, STATUS.WAITING].includes(this.status)) {
+        this.suspended = false;
+        // bypass the guard, status set by 'cancel' listener
+        this.dispatch(['cancel']);
+        return resolve();
+      }
+
       if (this.status !== STATUS.PENDING && this.status !== STATUS.RUNNING) {
-        return ;
+        return resolve();
       }
       
       const self = this;
-      let it = setTimeout(() => {
+      let it = clock.setTimeout(() => {
         return reject(new Error('timeout to cancel'));
       }, 3000);
 
       this.on('cancel', function done() {
-          clearTimeout(it);
+          clock.clearTimeout(it);
           (it as any) = null;
           (self as any).xhr = null;
           
@@ -207,6 +507,7 @@ export abstract class Worker<P = any> implements IWorker<P> {
       });
 
       try {
+        this.interrupt();
         this.abort();
       } catch (error) {
         reject(error);
@@ -214,13 +515,45 @@ export abstract class Worker<P = any> implements IWorker<P> {
     });
   }
   
+  /**
+   * Abort running worker as timeout
+   */
+  public async expire() {
+    if (this.status !== STATUS.RUNNING) {
+      return ;
+    }
+
+    // settle first, then the 'cancel' emitted by abort() will be ignored
+    this.emit('timeout');
+    this.interrupt();
+    this.abort();
+  }
+  
   public async pause() {
     // if not status(pending + running), ignore
     if (![STATUS.PENDING, STATUS.RUNNING].includes(this.status)) {
       return ;
     }
 
-    alert('拼命开发中');
+    // not started, just leave the queue
+    if (this.status === STATUS.PENDING) {
+      this.emit(['pause', 'update']);
+      return ;
+    }
+
+    // pause first, then the 'cancel' emitted by abort() will be ignored
+    this.emit(['pause', 'update']);
+    this.interrupt();
+
+    if (this.suspend) {
+      this.suspended = true;
+      await this.suspend();
+      return ;
+    }
+
+    // fallback, abort and run from scratch when resume
+    this.abort();
+    this.setProgress(0);
   }
   
   public async resume() {
@@ -229,7 +562,7 @@ export abstract class Worker<P = any> implements IWorker<P> {
       return ;
     }
 
-    alert('拼命开发中');
+    this.emit('resume');
   }
 
   // need rewrite
@@ -237,5 +570,24 @@ export abstract class Worker<P = any> implements IWorker<P> {
 
   public abstract handle(): void;
 
-  public abstract abort(): void;
+  /**
+   * Stop current run, called after the signal aborted
+   *  emit 'cancel' by default, override to stop what the signal cannot, such as xhr
+   */
+  public abort() {
+    this.emit('cancel');
+  }
+
+  /**
+   * Optional, stop transfer but keep the progress, such as chunks uploaded
+   *  called after status changed to PAUSED, so settle events will be ignored
+   *  if not implemented, pause will abort and run from scratch when resume
+   */
+  protected suspend?(): void | Promise<void>;
+
+  /**
+   * Optional, continue transfer from where suspend() stopped
+   *  should emit 'run' like handle()
+   */
+  protected continue?(): void | Promise<void>;
 }
\ No newline at end of file
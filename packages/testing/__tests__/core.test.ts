@@ -0,0 +1,204 @@
+import { Master, STATUS } from '@zoupdown/core';
+
+import { VirtualClock, FakeWorker, MockServer } from '../src';
+
+describe('@zoupdown/testing', () => {
+  let clock: VirtualClock;
+
+  beforeEach(() => {
+    clock = new VirtualClock().install();
+  });
+
+  afterEach(() => {
+    clock.uninstall();
+  });
+
+  describe('clock', () => {
+    it('fire timers in time order by tick', async () => {
+      const fired: string[] = [];
+      clock.setTimeout(() => fired.push('b'), 200);
+      clock.setTimeout(() => fired.push('a'), 100);
+      const c = clock.setTimeout(() => fired.push('c'), 150);
+      clock.clearTimeout(c);
+
+      await clock.tick(99);
+      expect(fired).toEqual([]);
+
+      await clock.tick(101);
+      expect(fired).toEqual(['a', 'b']);
+      expect(clock.now()).toEqual(200);
+      expect(clock.pending).toEqual(0);
+    });
+  });
+
+  describe('worker', () => {
+    it('run by concurrency in virtual time', async () => {
+      const master = new Master({ concurrency: 1 });
+      const workers = await Promise.all([1, 2, 3].map(() => master.create(FakeWorker, { duration: 100 }))) as FakeWorker[];
+
+      await master.startup();
+      await master.executeAll();
+      await clock.tick(0);
+      expect(workers.map(e => e.status)).toEqual([STATUS.RUNNING, STATUS.PENDING, STATUS.PENDING]);
+
+      await clock.tick(100);
+      expect(workers.map(e => e.status)).toEqual([STATUS.COMPLETE, STATUS.RUNNING, STATUS.PENDING]);
+
+      await clock.tick(200);
+      expect(workers.map(e => e.status)).toEqual([STATUS.COMPLETE, STATUS.COMPLETE, STATUS.COMPLETE]);
+      expect(workers.map(e => e.updatedAt.getTime())).toEqual([100, 200, 300]);
+
+      await master.shutdown();
+    });
+
+    it('expire by master timeout', async () => {
+      const master = new Master({ timeout: 500 });
+      const worker = await master.create(FakeWorker, { duration: 1000 }) as FakeWorker;
+
+      await master.startup();
+      await master.execute(worker.id);
+
+      await clock.tick(499);
+      expect(worker.status).toEqual(STATUS.RUNNING);
+
+      await clock.tick(1);
+      expect(worker.status).toEqual(STATUS.TIMEOUT);
+      expect(worker.aborts).toEqual(1);
+      expect(clock.pending).toEqual(0);
+
+      await master.shutdown();
+    });
+
+    it('keep progress when paused, play the rest when resumed', async () => {
+      const master = new Master();
+      const worker = await master.create(FakeWorker, { duration: 400, steps: 4 }) as FakeWorker;
+
+      await master.startup();
+      await master.execute(worker.id);
+
+      await clock.tick(200);
+      expect(worker.progress).toEqual(0.5);
+
+      await master.pause(worker.id);
+      await clock.tick(1000);
+      expect(worker.status).toEqual(STATUS.PAUSED);
+      expect(worker.progress).toEqual(0.5);
+
+      await master.resume(worker.id);
+      await clock.tick(200);
+      expect(worker.status).toEqual(STATUS.COMPLETE);
+      expect(worker.runs).toEqual(2);
+
+      await master.shutdown();
+    });
+
+    it('fail by script or by hand', async () => {
+      const scripted = new FakeWorker({ duration: 100, error: 'Bad Gateway' });
+      const manual = new FakeWorker({});
+      const errors: string[] = [];
+      scripted.on('error', (error) => errors.push(error!.message));
+      manual.on('error', (error) => errors.push(error!.message));
+
+      await Promise.all([scripted, manual].map(e => e.pending()));
+      await Promise.all([scripted, manual].map(e => e.run()));
+      manual.fail('Forbidden');
+      await clock.runAll();
+
+      expect([scripted.status, manual.status]).toEqual([STATUS.ERROR, STATUS.ERROR]);
+      expect(errors).toEqual(['Forbidden', 'Bad Gateway']);
+    });
+  });
+
+  describe('xhr', () => {
+    const send = (url: string, timeout = 0) => new Promise<any>((resolve) => {
+      const xhr = new XMLHttpRequest();
+      ['load', 'error', 'timeout', 'abort'].forEach(event => {
+        xhr.addEventListener(event, () => resolve({ event, status: xhr.status, body: xhr.responseText }));
+      });
+
+      xhr.open('POST', url, true);
+      xhr.setRequestHeader('x-token', 't');
+      xhr.timeout = timeout;
+      xhr.send('hello');
+    });
+
+    let server: MockServer;
+
+    beforeEach(() => {
+      server = new MockServer()
+        .on('POST', '/upload', { body: { ok: true }, delay: 100 })
+        .on('*', /^\/down/, { network: true })
+        .install();
+    });
+
+    afterEach(() => {
+      server.uninstall();
+    });
+
+    it('answer by routes in virtual time', async () => {
+      const ok = send('/upload');
+      const missing = send('/missing');
+      const down = send('/down/1');
+
+      await clock.tick(100);
+
+      expect(await ok).toEqual({ event: 'load', status: 200, body: '{"ok":true}' });
+      expect(await missing).toEqual({ event: 'load', status: 404, body: '' });
+      expect((await down).event).toEqual('error');
+      expect(server.requests.map(e => [e.url, e.headers['x-token'], e.body])).toEqual([
+        ['/upload', 't', 'hello'],
+        ['/missing', 't', 'hello'],
+        ['/down/1', 't', 'hello'],
+      ]);
+    });
+
+    it('reply by handler with headers and progress, or abort', async () => {
+      server
+        .on('PUT', '/echo', async request => ({ status: 201, headers: { etag: '"1"' }, body: request.headers['x-token'] }))
+        .on('PUT', '/broken', () => Promise.reject(new Error('handler failed')));
+
+      const xhr = new XMLHttpRequest();
+      const progress: number[] = [];
+      const loaded = new Promise(resolve => xhr.addEventListener('load', resolve));
+      xhr.upload.addEventListener('progress', (e: any) => progress.push(e.loaded));
+
+      const form = new FormData();
+      form.append('name', 'abc');
+      form.append('file', new Blob(['0123456789']));
+
+      xhr.open('put', '/echo', true);
+      xhr.setRequestHeader('x-token', 't');
+      xhr.send(form);
+      await clock.tick(0);
+      await loaded;
+
+      expect([xhr.status, xhr.responseText, xhr.getAllResponseHeaders()]).toEqual([201, 't', 'etag: "1"']);
+      expect(progress).toEqual([13]);
+
+      const broken = new XMLHttpRequest();
+      const failed = new Promise(resolve => broken.addEventListener('error', resolve));
+      broken.open('PUT', '/broken', true);
+      broken.send();
+      await clock.tick(0);
+      await failed;
+
+      const events: string[] = [];
+      const aborted = new XMLHttpRequest();
+      ['load', 'abort'].forEach(event => aborted.addEventListener(event, () => events.push(event)));
+      aborted.open('POST', '/upload', true);
+      aborted.send('hello');
+      aborted.abort();
+      aborted.abort();
+      await clock.tick(100);
+
+      expect(events).toEqual(['abort']);
+    });
+
+    it('time out when reply is slower', async () => {
+      const slow = send('/upload', 50);
+
+      await clock.tick(50);
+      expect((await slow).event).toEqual('timeout');
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { IClock, systemClock, useClock } from '@zoupdown/core';
+
+interface Timer {
+  id: number;
+  at: number;
+  fn: () => void;
+}
+
+// let promise callbacks settle, by a real macrotask
+const flush = () => new Promise<void>(resolve => systemClock.setTimeout(resolve, 0));
+
+/**
+ * Virtual Clock, time only moves by tick()
+ *  timers fire in time order, promises settle between them
+ */
+export class VirtualClock implements IClock {
+  private time: number;
+  private timers: Timer[] = [];
+  private seq = 0;
+
+  /**
+   * @param start start time, ms
+   */
+  constructor(start = 0) {
+    this.time = start;
+  }
+
+  public now() {
+    return this.time;
+  }
+
+  public setTimeout(fn: () => void, ms: number) {
+    const timer = { id: ++this.seq, at: this.time + Math.max(ms || 0, 0), fn };
+
+    // sorted by time, then FIFO
+    const index = this.timers.findIndex(e => e.at > timer.at);
+    this.timers.splice(index === -1 ? this.timers.length : index, 0, timer);
+
+    return timer.id;
+  }
+
+  public clearTimeout(id: any) {
+    this.timers = this.timers.filter(e => e.id !== id);
+  }
+
+  /**
+   * Count of timers not fired
+   */
+  public get pending() {
+    return this.timers.length;
+  }
+
+  /**
+   * Use this clock in core, until uninstall()
+   */
+  public install() {
+    useClock(this);
+    return this;
+  }
+
+  public uninstall() {
+    useClock(null);
+  }
+
+  /**
+   * Move time forward, fire due timers one by one
+   *
+   * @param ms time to move, ms
+   */
+  public async tick(ms = 0) {
+    const target = this.time + ms;
+    await flush();
+
+    while (this.timers.length && this.timers[0].at <= target) {
+      const timer = this.timers.shift()!;
+      this.time = timer.at;
+
+      timer.fn();
+      await flush();
+    }
+
+    this.time = target;
+  }
+
+  /**
+   * Fire timers until none left, such as retries and timeouts
+   *
+   * @param limit max timers fired, against endless timers
+   */
+  public async runAll(limit = 1000) {
+    await flush();
+
+    for (let fired = 0; this.timers.length; fired++) {
+      if (fired >= limit) {
+        throw new Error(`Timers still pending after ${limit} fired`);
+      }
+
+      await this.tick(this.timers[0].at - this.time);
+    }
+  }
+}
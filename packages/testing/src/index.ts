@@ -0,0 +1,3 @@
+export * from './clock';
+export * from './worker';
+export * from './xhr';
@@ -0,0 +1,118 @@
+import { Worker, clock, registry } from '@zoupdown/core';
+
+export interface FakeOptions {
+  /**
+   * @default 100
+   */
+  size?: number;
+
+  /**
+   * Time to finish a run from scratch, ms, by clock
+   *  omit to settle by hand, such as complete() and fail()
+   */
+  duration?: number;
+
+  /**
+   * Progress events of a run
+   *
+   * @default 1
+   */
+  steps?: number;
+
+  /**
+   * Settle with error instead of complete when duration passed
+   */
+  error?: string;
+}
+
+/**
+ * Fake Worker, settled by script or by hand, no transfer at all
+ *  pause keeps progress, resume plays the rest
+ */
+export class FakeWorker extends Worker<FakeOptions> {
+  // handle() called, continue() included
+  public readonly runs = 0;
+  public readonly aborts = 0;
+
+  private timers: any[] = [];
+
+  public get size() {
+    return this.options.size === undefined ? 100 : this.options.size;
+  }
+
+  public handle() {
+    (this as any).runs += 1;
+    this.emit('run');
+
+    this.play();
+  }
+
+  /**
+   * Report progress
+   *
+   * @param progress 0 ~ 1
+   */
+  public progressTo(progress: number) {
+    this.setProgress(progress);
+    this.emit('progress');
+  }
+
+  public complete() {
+    this.stop();
+    this.progressTo(1);
+    this.emit('complete');
+  }
+
+  /**
+   * @param error error or message
+   */
+  public fail(error: Error | string = 'Failed') {
+    this.stop();
+    this.emit('error', typeof error === 'string' ? new Error(error) : error);
+  }
+
+  public abort() {
+    (this as any).aborts += 1;
+    this.stop();
+    this.emit('cancel');
+  }
+
+  protected suspend() {
+    this.stop();
+  }
+
+  protected continue() {
+    this.handle();
+  }
+
+  // schedule steps not reached yet
+  private play() {
+    const { duration, steps = 1 } = this.options;
+    if (duration === undefined) return ;
+
+    const interval = duration / steps;
+    const done = Math.round(this.progress * steps);
+
+    for (let step = done + 1; step <= steps; step++) {
+      this.timers.push(clock.setTimeout(() => {
+        if (step < steps) {
+          return this.progressTo(step / steps);
+        }
+
+        if (this.options.error) {
+          return this.fail(this.options.error);
+        }
+
+        this.complete();
+      }, (step - done) * interval));
+    }
+  }
+
+  private stop() {
+    this.timers.forEach(timer => clock.clearTimeout(timer));
+    this.timers = [];
+  }
+}
+
+// register for Master.export / Master.import
+registry.register('fake', FakeWorker);
@@ -0,0 +1,261 @@
+import { clock } from '@zoupdown/core';
+
+export interface MockRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: any;
+  withCredentials: boolean;
+  timeout: number;
+}
+
+export interface MockReply {
+  /**
+   * @default 200
+   */
+  status?: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+
+  /**
+   * Object is sent as JSON
+   */
+  body?: string | object;
+
+  /**
+   * Response time, ms, by clock
+   *
+   * @default 0
+   */
+  delay?: number;
+
+  /**
+   * Fail as network error
+   */
+  network?: boolean;
+}
+
+export type MockHandler = (request: MockRequest) => MockReply | Promise<MockReply>;
+
+interface Route {
+  method: string;
+  url: string | RegExp;
+  handler: MockHandler;
+}
+
+type Listener = (e: any) => void;
+
+// bytes of request body, FormData counted by its values
+function sizeOf(body: any): number {
+  if (!body) return 0;
+  if (typeof body === 'string') return body.length;
+  if (typeof body.size === 'number') return body.size;
+
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    let size = 0;
+    (body as any).forEach((value: any) => {
+      size += sizeOf(value);
+    });
+
+    return size;
+  }
+
+  return 0;
+}
+
+/**
+ * XMLHttpRequest stand-in, answered by MockServer
+ */
+export class MockXMLHttpRequest {
+  public readyState = 0;
+  public status = 0;
+  public statusText = '';
+  public responseText = '';
+  public timeout = 0;
+  public withCredentials = false;
+  public readonly upload = {
+    addEventListener: (event: string, cb: Listener) => this.on(`upload:${event}`, cb),
+  };
+
+  private method = 'GET';
+  private url = '';
+  private headers: Record<string, string> = {};
+  private responseHeaders: Record<string, string> = {};
+  private listeners: Record<string, Listener[]> = {};
+  private timers: any[] = [];
+  private done = false;
+
+  constructor(private readonly server: MockServer) {}
+
+  public addEventListener(event: string, cb: Listener) {
+    this.on(event, cb);
+  }
+
+  public open(method: string, url: string) {
+    this.method = method.toUpperCase();
+    this.url = url;
+    this.readyState = 1;
+  }
+
+  public setRequestHeader(key: string, value: string) {
+    this.headers[key] = value;
+  }
+
+  public getAllResponseHeaders() {
+    return Object.keys(this.responseHeaders)
+      .map(key => `${key}: ${this.responseHeaders[key]}`)
+      .join('\r\n');
+  }
+
+  public send(body?: any) {
+    const request: MockRequest = {
+      method: this.method,
+      url: this.url,
+      headers: { ...this.headers },
+      body,
+      withCredentials: this.withCredentials,
+      timeout: this.timeout,
+    };
+
+    this.server.requests.push(request);
+
+    Promise.resolve(this.server.handle(request))
+      .then(reply => this.reply(reply, sizeOf(body)))
+      .catch(() => this.reply({ network: true }, 0));
+  }
+
+  public abort() {
+    if (this.done) return ;
+
+    this.settle();
+    this.fire('abort');
+  }
+
+  private reply(reply: MockReply, size: number) {
+    if (this.done) return ;
+
+    const delay = reply.delay || 0;
+
+    if (this.timeout && delay >= this.timeout) {
+      this.timers.push(clock.setTimeout(() => {
+        this.settle();
+        this.fire('timeout');
+      }, this.timeout));
+      return ;
+    }
+
+    this.timers.push(clock.setTimeout(() => {
+      this.settle();
+
+      if (reply.network) {
+        return this.fire('error');
+      }
+
+      const body = reply.body === undefined ? '' : reply.body;
+      const json = typeof body !== 'string';
+
+      this.status = reply.status || 200;
+      this.statusText = reply.statusText || (this.status < 400 ? 'OK' : 'Error');
+      this.responseHeaders = { ...(json ? { 'content-type': 'application/json' } : {}), ...reply.headers };
+      this.responseText = json ? JSON.stringify(body) : body as string;
+
+      this.fire('upload:progress', { loaded: size, total: size });
+      this.fire('load');
+    }, delay));
+  }
+
+  private settle() {
+    this.done = true;
+    this.readyState = 4;
+    this.timers.forEach(timer => clock.clearTimeout(timer));
+    this.timers = [];
+  }
+
+  private on(event: string, cb: Listener) {
+    (this.listeners[event] = this.listeners[event] || []).push(cb);
+  }
+
+  private fire(event: string, e: any = {}) {
+    (this.listeners[event] || []).slice().forEach(cb => cb(e));
+  }
+}
+
+/**
+ * In-memory Server for XMLHttpRequest, such as UploadWorker
+ *  requests are answered by routes, unmatched ones get 404
+ */
+export class MockServer {
+  public readonly requests: MockRequest[] = [];
+
+  private readonly routes: Route[] = [];
+  private original: any = null;
+
+  /**
+   * Answer requests matched
+   *  later routes win, so tests could override defaults
+   *
+   * @param method http method, * for any
+   * @param url exact url or pattern
+   * @param handler reply or reply factory
+   */
+  public on(method: string, url: string | RegExp, handler: MockHandler | MockReply) {
+    this.routes.unshift({
+      method: method.toUpperCase(),
+      url,
+      handler: typeof handler === 'function' ? handler : () => handler,
+    });
+
+    return this;
+  }
+
+  /**
+   * Replace global XMLHttpRequest, until uninstall()
+   */
+  public install() {
+    if (!this.original) {
+      this.original = (global as any).XMLHttpRequest || true;
+    }
+
+    (global as any).XMLHttpRequest = this.XMLHttpRequest;
+    return this;
+  }
+
+  public uninstall() {
+    if (!this.original) return ;
+
+    (global as any).XMLHttpRequest = this.original === true ? undefined : this.original;
+    this.original = null;
+  }
+
+  /**
+   * XMLHttpRequest class bound to this server
+   */
+  public get XMLHttpRequest(): new () => MockXMLHttpRequest {
+    const server = this;
+
+    return class extends MockXMLHttpRequest {
+      constructor() {
+        super(server);
+      }
+    };
+  }
+
+  /**
+   * Reply of request, by the latest route matched
+   *
+   * @param request request sent
+   */
+  public handle(request: MockRequest) {
+    const route = this.routes.find(e => {
+      if (e.method !== '*' && e.method !== request.method) return false;
+
+      return typeof e.url === 'string' ? e.url === request.url : e.url.test(request.url);
+    });
+
+    if (!route) {
+      return { status: 404, statusText: 'Not Found' };
+    }
+
+    return route.handler(request);
+  }
+}
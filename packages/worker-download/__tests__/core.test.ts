@@ -0,0 +1,193 @@
+import * as http from 'http';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { STATUS } from '@zoupdown/core';
+
+import { DownloadWorker, FetchTransport } from '../src';
+
+const content = Buffer.from('0123456789'.repeat(1000));
+const md5 = crypto.createHash('md5').update(content).digest('hex');
+
+const waitFor = (worker: DownloadWorker, status: STATUS) => new Promise(resolve => {
+  if (worker.status === status) return resolve();
+
+  worker.on('update:status', function check() {
+    if (worker.status !== status) return ;
+
+    worker.off('update:status', check);
+    resolve();
+  });
+});
+
+describe('@zoupdown/worker-download', () => {
+  const ranges: string[] = [];
+  let server: http.Server;
+  let url: string;
+  let slow = false;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/missing') {
+        res.writeHead(404);
+        return res.end();
+      }
+
+      const range = /bytes=(\d+)-/.exec(req.headers.range || '');
+      const start = range ? +range[1] : 0;
+      ranges.push(req.headers.range || '');
+
+      res.writeHead(range ? 206 : 200, {
+        'Content-Length': content.length - start,
+        ...(range ? { 'Content-Range': `bytes ${start}-${content.length - 1}/${content.length}` } : {}),
+      });
+
+      if (!slow) {
+        return res.end(content.slice(start));
+      }
+
+      // half, then wait for pause
+      res.write(content.slice(start, start + 5000));
+      setTimeout(() => res.end(content.slice(start + 5000)), 500);
+    });
+
+    await new Promise(resolve => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as any).port}/file`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    ranges.length = 0;
+    slow = false;
+  });
+
+  it('works', () => {
+    expect(true).toEqual(true);
+  });
+
+  it('download into file, and verify checksum', async () => {
+    const file = path.join(os.tmpdir(), `zoupdown-${Date.now()}`);
+    const worker = new DownloadWorker({ url, path: file, checksum: { algorithm: 'md5', value: md5 } });
+
+    await worker.run();
+    await waitFor(worker, STATUS.COMPLETE);
+
+    expect(worker.size).toEqual(content.length);
+    expect(worker.progress).toEqual(1);
+    expect(worker.response!.path).toEqual(file);
+    expect(fs.readFileSync(file)).toEqual(content);
+
+    fs.unlinkSync(file);
+  });
+
+  it('fail when checksum mismatch', async () => {
+    const file = path.join(os.tmpdir(), `zoupdown-${Date.now()}`);
+    const worker = new DownloadWorker({ url, path: file, checksum: { algorithm: 'sha256', value: md5 } });
+
+    await worker.run();
+    await waitFor(worker, STATUS.ERROR);
+
+    fs.unlinkSync(file);
+  });
+
+  it('fail on 4xx, and drop received bytes when cancelled', async () => {
+    const file = path.join(os.tmpdir(), `zoupdown-${Date.now()}`);
+    const missing = new DownloadWorker({ url: url.replace('/file', '/missing'), path: file });
+
+    await missing.run();
+    await waitFor(missing, STATUS.ERROR);
+
+    slow = true;
+    const worker = new DownloadWorker({ url, path: file });
+
+    await worker.run();
+    await new Promise(resolve => worker.once('progress', () => resolve()));
+    await worker.cancel();
+
+    expect(worker.status).toEqual(STATUS.CANCELLED);
+    expect(worker.received).toEqual(0);
+
+    fs.unlinkSync(file);
+  });
+
+  it('download into blob by fetch in browser, and verify checksum', async () => {
+    const { ReadableStream } = require('stream/web');
+    const sha256 = crypto.createHash('sha256').update(content).digest('hex');
+    const globals = { window: {}, Blob: require('buffer').Blob, crypto: require('crypto').webcrypto } as any;
+
+    // minimal fetch, Response and AbortController, as the browser gives
+    globals.AbortController = class {
+      public readonly signal = { aborted: false };
+      public abort() {
+        this.signal.aborted = true;
+      }
+    };
+    globals.Response = class {
+      constructor(private readonly blob: Blob) {}
+      public arrayBuffer() {
+        return this.blob.arrayBuffer();
+      }
+    };
+    globals.fetch = async () => ({
+      status: 200,
+      statusText: 'OK',
+      headers: new Map([['content-length', `${content.length}`], ['content-type', 'text/plain']]),
+      body: new ReadableStream({
+        start(controller) {
+          controller.enqueue(new Uint8Array(content.slice(0, 4000)));
+          controller.enqueue(new Uint8Array(content.slice(4000)));
+          controller.close();
+        },
+      }),
+    });
+
+    Object.assign(global, globals);
+
+    try {
+      const worker = new DownloadWorker({
+        url: '/file',
+        checksum: { algorithm: 'sha256', value: sha256 },
+        transport: () => new FetchTransport(),
+      });
+
+      await worker.run();
+      await waitFor(worker, STATUS.COMPLETE);
+
+      expect(worker.progress).toEqual(1);
+      expect(worker.response!.path).toBe(null);
+      expect(Buffer.from(await worker.response!.blob!.arrayBuffer())).toEqual(content);
+    } finally {
+      Object.keys(globals).forEach(key => delete (global as any)[key]);
+    }
+  });
+
+  it('resume by range after pause', async () => {
+    slow = true;
+    const file = path.join(os.tmpdir(), `zoupdown-${Date.now()}`);
+    const worker = new DownloadWorker({ url, path: file });
+
+    await worker.run();
+    await new Promise(resolve => worker.on('progress', function once() {
+      worker.off('progress', once);
+      resolve();
+    }));
+
+    await worker.pause();
+    const received = worker.received;
+    expect(received).toBeGreaterThan(0);
+
+    slow = false;
+    await worker.resume();
+    await worker.run();
+    await waitFor(worker, STATUS.COMPLETE);
+
+    expect(ranges).toEqual(['', `bytes=${received}-`]);
+    expect(fs.readFileSync(file)).toEqual(content);
+
+    fs.unlinkSync(file);
+  });
+});
@@ -0,0 +1,58 @@
+import * as SparkMd5 from 'spark-md5';
+
+export type ChecksumAlgorithm = 'md5' | 'sha1' | 'sha256';
+
+export interface Checksum {
+  algorithm: ChecksumAlgorithm;
+  /**
+   * hex digest
+   */
+  value: string;
+}
+
+const SUBTLE_ALGORITHMS = {
+  sha1: 'SHA-1',
+  sha256: 'SHA-256',
+};
+
+const toHex = (buffer: ArrayBuffer) => {
+  return Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Hash Blob, browser
+ * 
+ * @param blob blob
+ * @param algorithm algorithm
+ */
+export async function hashBlob(blob: Blob, algorithm: ChecksumAlgorithm): Promise<string> {
+  const buffer = await new Response(blob).arrayBuffer();
+
+  if (algorithm === 'md5') {
+    return SparkMd5.ArrayBuffer.hash(buffer);
+  }
+
+  return toHex(await crypto.subtle.digest(SUBTLE_ALGORITHMS[algorithm], buffer));
+}
+
+/**
+ * Hash File, Node.js
+ * 
+ * @param path file path
+ * @param algorithm algorithm
+ */
+export async function hashFile(path: string, algorithm: ChecksumAlgorithm): Promise<string> {
+  const fs = require('fs');
+  const crypto = require('crypto');
+
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash(algorithm);
+
+    fs.createReadStream(path)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
@@ -0,0 +1,244 @@
+import { Worker, HookRequest, registry } from '@zoupdown/core';
+
+import { DownloadTransport, createTransport, isNode } from './transport';
+import { Sink, BlobSink, FileSink } from './sink';
+import { Checksum, hashBlob, hashFile } from './checksum';
+
+export * from './transport';
+export * from './sink';
+export * from './checksum';
+
+export interface Options {
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  withCredentials?: boolean;
+
+  /**
+   * File path to save, Node.js only
+   *  browser will get blob from response
+   */
+  path?: string;
+
+  /**
+   * Expected checksum, verified when finish
+   */
+  checksum?: Checksum;
+
+  /**
+   * Custom transport, such as test double
+   * 
+   * @default fetch in browser, http / https in Node.js
+   */
+  transport?: () => DownloadTransport;
+}
+
+export interface DownloadResult {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+
+  /**
+   * Downloaded content, browser
+   */
+  blob: Blob | null;
+
+  /**
+   * Saved file path, Node.js
+   */
+  path: string | null;
+}
+
+const DEFAULT_METHOD = 'GET';
+
+export class DownloadWorker extends Worker<Options> {
+  public readonly url = this.options.url;
+  public readonly fileSize: number = 0;
+  public readonly received: number = 0;
+  public readonly response: DownloadResult | null = null;
+
+  private transport: DownloadTransport | null = null;
+  private readonly sink: Sink = this.options.path ? new FileSink(this.options.path) : new BlobSink();
+
+  // increase when abort or suspend, outdated transfer exits
+  private session = 0;
+
+  public toJSON() {
+    return {
+      id: this.id,
+      status: this.status,
+      preStatus: this.prevStatus,
+      progress: this.progress,
+      attempts: this.attempts,
+      size: this.size,
+      received: this.received,
+      speed: this.speed,
+      eta: this.estimatedTimeToArrival,
+      url: this.url,
+      path: this.options.path || null,
+      history: this.history,
+    };
+  }
+
+  public get size() {
+    return this.fileSize;
+  }
+
+  public handle() {
+    this.emit('run');
+
+    const session = ++this.session;
+
+    this.transfer(session).catch((error) => {
+      // stopped by abort or suspend
+      if (session !== this.session) return ;
+
+      this.emit('error', error);
+    });
+  }
+
+  private async transfer(session: number) {
+    if (isNode() && !this.options.path) {
+      throw new Error('Option path is required in Node.js');
+    }
+
+    const transport = this.transport = this.options.transport ? this.options.transport() : createTransport();
+
+    // finished before, download again from scratch
+    if (this.fileSize && this.received >= this.fileSize) {
+      this.setReceived(0);
+    }
+
+    const headers = { ...this.options.headers };
+    if (this.received > 0) {
+      headers['Range'] = `bytes=${this.received}-`;
+    }
+
+    // hooks may refresh token or sign, no form data for download
+    const prepared: HookRequest = {
+      url: this.url,
+      method: this.options.method || DEFAULT_METHOD,
+      headers,
+      data: {},
+    };
+
+    await this.hook('beforeRequest', prepared);
+    if (session !== this.session) return ;
+
+    const response = await transport.open({
+      url: prepared.url,
+      method: prepared.method,
+      headers: prepared.headers,
+      withCredentials: this.options.withCredentials,
+    });
+
+    // hooks may validate status and headers, body is a stream
+    await this.hook('afterResponse', response);
+    if (session !== this.session) return ;
+
+    if (response.status >= 400) {
+      const error = new Error(`[${response.status}] ${response.statusText}`) as any;
+      error.status = response.status;
+      throw error;
+    }
+
+    // server ignores range, download from scratch
+    const offset = response.status === 206 ? this.received : 0;
+    this.setReceived(offset);
+    this.setFileSize(offset, response.headers);
+
+    await this.sink.open(offset);
+
+    try {
+      for await (const chunk of response.body) {
+        if (session !== this.session) return ;
+
+        await this.sink.write(chunk);
+
+        this.setReceived(this.received + chunk.length);
+        this.emit('progress');
+
+        // slow down reading, backpressure to server
+        await this.consume(chunk.length);
+      }
+    } finally {
+      await this.sink.close();
+    }
+
+    if (session !== this.session) return ;
+
+    await this.verify();
+
+    (this as any).response = {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      blob: this.sink instanceof BlobSink ? this.sink.toBlob(response.headers['content-type']) : null,
+      path: this.options.path || null,
+    };
+
+    this.emit('complete');
+  }
+
+  private setReceived(received: number) {
+    (this as any).received = received;
+
+    if (this.fileSize) {
+      this.setProgress(received / this.fileSize);
+    }
+  }
+
+  private setFileSize(offset: number, headers: Record<string, string>) {
+    // Content-Range: bytes 100-199/1000
+    const range = /\/(\d+)\s*$/.exec(headers['content-range'] || '');
+    const length = parseInt(headers['content-length'], 10);
+
+    (this as any).fileSize = range ? +range[1] : (isNaN(length) ? 0 : offset + length);
+  }
+
+  private async verify() {
+    const { checksum } = this.options;
+    if (!checksum) return ;
+
+    const actual = this.sink instanceof BlobSink
+      ? await hashBlob(this.sink.toBlob(), checksum.algorithm)
+      : await hashFile(this.options.path!, checksum.algorithm);
+
+    if (actual.toLowerCase() !== checksum.value.toLowerCase()) {
+      // corrupted, should download from scratch
+      this.setReceived(0);
+
+      const error = new Error(`Checksum(${checksum.algorithm}) mismatch, expect ${checksum.value}, but got ${actual}`) as any;
+      error.checksum = actual;
+      throw error;
+    }
+  }
+
+  private stop() {
+    this.session += 1;
+
+    if (this.transport) {
+      this.transport.abort();
+      this.transport = null;
+    }
+  }
+
+  protected suspend() {
+    // received bytes are kept, continue by range
+    this.stop();
+  }
+
+  protected continue() {
+    this.handle();
+  }
+
+  public abort() {
+    this.stop();
+    this.setReceived(0);
+
+    this.emit('cancel');
+  }
+}
+
+// register for Master.export / Master.import
+registry.register('download', DownloadWorker);
@@ -0,0 +1,79 @@
+export interface Sink {
+  /**
+   * Open for writing from offset, 0 means from scratch
+   * 
+   * @param offset bytes already written
+   */
+  open(offset: number): Promise<void>;
+
+  write(chunk: Uint8Array): Promise<void>;
+
+  /**
+   * Flush and close, written data is kept for resume
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Collect chunks in memory, browser
+ */
+export class BlobSink implements Sink {
+  private chunks: Uint8Array[] = [];
+
+  public async open(offset: number) {
+    if (offset === 0) {
+      this.chunks = [];
+    }
+  }
+
+  public async write(chunk: Uint8Array) {
+    this.chunks.push(chunk);
+  }
+
+  public async close() {
+    //
+  }
+
+  public toBlob(type?: string) {
+    return new Blob(this.chunks, { type });
+  }
+}
+
+/**
+ * Write into file, Node.js
+ */
+export class FileSink implements Sink {
+  private stream: any = null;
+
+  constructor(public readonly path: string) {}
+
+  public async open(offset: number) {
+    const fs = require('fs');
+
+    this.stream = fs.createWriteStream(this.path, { flags: offset === 0 ? 'w' : 'a' });
+
+    return new Promise<void>((resolve, reject) => {
+      this.stream.once('open', () => resolve());
+      this.stream.once('error', reject);
+    });
+  }
+
+  public async write(chunk: Uint8Array) {
+    // backpressure
+    if (!this.stream.write(chunk)) {
+      return new Promise<void>((resolve) => this.stream.once('drain', resolve));
+    }
+  }
+
+  public async close() {
+    const stream = this.stream;
+    if (!stream) return ;
+
+    this.stream = null;
+
+    return new Promise<void>((resolve, reject) => {
+      stream.once('error', reject);
+      stream.end(() => resolve());
+    });
+  }
+}
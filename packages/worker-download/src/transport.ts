@@ -0,0 +1,128 @@
+export interface DownloadRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  withCredentials?: boolean;
+}
+
+export interface DownloadResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: AsyncIterable<Uint8Array>;
+}
+
+export interface DownloadTransport {
+  /**
+   * Send request, resolve when headers received, body is streamed
+   * 
+   * @param request request
+   */
+  open(request: DownloadRequest): Promise<DownloadResponse>;
+
+  /**
+   * Abort request, body iteration should throw
+   */
+  abort(): void;
+}
+
+async function* iterate(stream: ReadableStream<Uint8Array>) {
+  const reader = stream.getReader();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return ;
+
+      yield value!;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Browser Transport, by fetch and ReadableStream
+ */
+export class FetchTransport implements DownloadTransport {
+  private controller: AbortController | null = null;
+
+  public async open(request: DownloadRequest) {
+    const controller = this.controller = new AbortController();
+
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      credentials: request.withCredentials ? 'include' : 'same-origin',
+      signal: controller.signal,
+    });
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: response.body ? iterate(response.body) : iterate(new Response(new Blob([])).body!),
+    };
+  }
+
+  public abort() {
+    if (this.controller) {
+      this.controller.abort();
+      this.controller = null;
+    }
+  }
+}
+
+/**
+ * Node.js Transport, by http / https
+ */
+export class NodeTransport implements DownloadTransport {
+  private request: any = null;
+
+  public async open(request: DownloadRequest) {
+    const { URL } = require('url');
+    const target = new URL(request.url);
+    const client = target.protocol === 'https:' ? require('https') : require('http');
+
+    return new Promise<DownloadResponse>((resolve, reject) => {
+      this.request = client.request(target, {
+        method: request.method,
+        headers: request.headers,
+      }, (response) => {
+        const headers: Record<string, string> = {};
+        for (const key in response.headers) {
+          const value = response.headers[key];
+          headers[key] = Array.isArray(value) ? value.join(',') : value;
+        }
+
+        resolve({
+          status: response.statusCode,
+          statusText: response.statusMessage,
+          headers,
+          body: response,
+        });
+      });
+
+      this.request.on('error', reject);
+      this.request.end();
+    });
+  }
+
+  public abort() {
+    if (this.request) {
+      this.request.destroy();
+      this.request = null;
+    }
+  }
+}
+
+export const isNode = () => typeof window === 'undefined' && typeof process !== 'undefined';
+
+export function createTransport(): DownloadTransport {
+  return isNode() ? new NodeTransport() : new FetchTransport();
+}
@@ -0,0 +1,138 @@
+import * as http from 'http';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { STATUS } from '@zoupdown/core';
+
+import { NodeUploadWorker } from '../src';
+import { humanFileSize } from '../src/utils';
+
+const content = Buffer.from('0123456789'.repeat(10000));
+
+const waitFor = (worker: NodeUploadWorker, status: STATUS) => new Promise(resolve => {
+  if (worker.status === status) return resolve();
+
+  worker.on('update:status', function check() {
+    if (worker.status !== status) return ;
+
+    worker.off('update:status', check);
+    resolve();
+  });
+});
+
+describe('@zoupdown/worker-upload-node', () => {
+  const file = path.join(os.tmpdir(), `zoupdown-upload-${Date.now()}`);
+  const bodies: Buffer[] = [];
+  let server: http.Server;
+  let url: string;
+
+  beforeAll(async () => {
+    fs.writeFileSync(file, content);
+
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        bodies.push(Buffer.concat(chunks));
+
+        if (req.url === '/hang') return ;
+        if (req.url === '/error') {
+          res.writeHead(500);
+          return res.end();
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end('{"ok":true}');
+      });
+    });
+
+    await new Promise(resolve => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as any).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+    fs.unlinkSync(file);
+  });
+
+  it('works', () => {
+    expect(true).toEqual(true);
+  });
+
+  it('upload file path as multipart', async () => {
+    const worker = new NodeUploadWorker({ url: `${url}/upload`, file, data: { album: 'travel' } });
+    const progress: number[] = [];
+    worker.on('progress', () => progress.push(worker.progress));
+
+    await worker.run();
+    await waitFor(worker, STATUS.COMPLETE);
+
+    const body = bodies[bodies.length - 1].toString();
+    expect(body).toContain('name="album"\r\n\r\ntravel');
+    expect(body).toContain(`filename="${path.basename(file)}"`);
+    expect(body).toContain(content.toString());
+    expect(progress[progress.length - 1]).toEqual(1);
+    expect(worker.response!.body).toEqual('{"ok":true}');
+  });
+
+  it('upload stream as raw body', async () => {
+    const worker = new NodeUploadWorker({ url: `${url}/upload`, file: fs.createReadStream(file), size: content.length, raw: true });
+
+    await worker.run();
+    await waitFor(worker, STATUS.COMPLETE);
+
+    expect(bodies[bodies.length - 1]).toEqual(content);
+  });
+
+  it('emit error with status', async () => {
+    const worker = new NodeUploadWorker({ url: `${url}/error`, file });
+    let status = 0;
+    worker.on('error', (error: any) => status = error.status);
+
+    await worker.run();
+    await waitFor(worker, STATUS.ERROR);
+
+    expect(status).toEqual(500);
+  });
+
+  it('report md5 and state, then cancel while sending', async () => {
+    const worker = new NodeUploadWorker({ url: `${url}/hang`, file });
+    expect([worker.progressHuman, worker.speedHuman]).toEqual(['-', '-']);
+
+    // md5 computed in background
+    while (!worker.md5) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    await worker.run();
+    await new Promise(resolve => worker.once('progress', () => resolve()));
+    expect(worker.progressHuman).toMatch(/^\d+\.\d{2}%$/);
+
+    await worker.cancel();
+    expect(worker.status).toEqual(STATUS.CANCELLED);
+    expect(worker.toJSON()).toMatchObject({ file, md5: crypto.createHash('md5').update(content).digest('hex') });
+    expect([humanFileSize(500, true), humanFileSize(1536, false)]).toEqual(['500 B', '1.5 KiB']);
+  });
+
+  it('refuse to send stream again', async () => {
+    const worker = new NodeUploadWorker({ url: `${url}/error`, file: fs.createReadStream(file), raw: true });
+    const errors: string[] = [];
+    worker.on('error', (error: any) => errors.push(error.message));
+
+    await worker.run();
+    await waitFor(worker, STATUS.ERROR);
+    await worker.pending();
+    await worker.run();
+    await waitFor(worker, STATUS.ERROR);
+
+    expect(errors).toEqual(['[500] Internal Server Error', 'Stream file cannot be re-sent, please use file path']);
+  });
+
+  it('emit timeout', async () => {
+    const worker = new NodeUploadWorker({ url: `${url}/hang`, file, timeout: 100 });
+
+    await worker.run();
+    await waitFor(worker, STATUS.TIMEOUT);
+  });
+});
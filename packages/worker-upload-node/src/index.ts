@@ -0,0 +1,299 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import { URL } from 'url';
+import { Worker, HookRequest, registry } from '@zoupdown/core';
+
+import { md5, stat, escape, humanFileSize } from './utils';
+
+export interface Options {
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  data?: Record<string, string>;
+
+  /**
+   * Socket idle timeout, ms
+   */
+  timeout?: number;
+
+  /**
+   * File path, or readable stream (cannot be re-sent when retry or resume)
+   */
+  file: string | NodeJS.ReadableStream;
+
+  /**
+   * File size, required by stream to report progress
+   */
+  size?: number;
+
+  /**
+   * File name in multipart
+   * 
+   * @default basename of file path
+   */
+  filename?: string;
+
+  /**
+   * Field name of file in multipart
+   * 
+   * @default file
+   */
+  field?: string;
+
+  /**
+   * Send file as raw body instead of multipart
+   */
+  raw?: boolean;
+}
+
+export interface UploadResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+const DEFAULT_METHOD = 'POST';
+
+export class NodeUploadWorker extends Worker<Options> {
+  public readonly filename = this.options.filename
+    || (typeof this.options.file === 'string' ? path.basename(this.options.file) : 'file');
+  public readonly fileSize = this.options.size || 0;
+  public readonly md5: string | null = null;
+  public readonly response: UploadResponse | null = null;
+
+  private request: http.ClientRequest | null = null;
+  private sent = false;
+
+  // increase when abort, outdated request exits
+  private session = 0;
+
+  constructor(options: Options) {
+    super(options);
+
+    if (typeof options.file === 'string') {
+      md5(options.file).then(v => {
+        (this as any).md5 = v;
+      }, () => {
+        // file not found, report when run
+      });
+    }
+  }
+
+  public toJSON() {
+    return {
+      id: this.id,
+      status: this.status,
+      preStatus: this.prevStatus,
+      progress: this.progress,
+      attempts: this.attempts,
+      size: this.size,
+      speed: this.speed,
+      eta: this.estimatedTimeToArrival,
+      file: typeof this.options.file === 'string' ? this.options.file : null,
+      filename: this.filename,
+      md5: this.md5,
+      history: this.history,
+    };
+  }
+
+  public get size() {
+    return this.fileSize;
+  }
+
+  public handle() {
+    this.emit('run');
+
+    const session = ++this.session;
+
+    this.send(session).catch((error) => {
+      // stopped by abort
+      if (session !== this.session) return ;
+
+      if (error.timeout) {
+        return this.emit('timeout');
+      }
+
+      this.emit('error', error);
+    });
+  }
+
+  private async send(session: number) {
+    const { file } = this.options;
+
+    if (typeof file !== 'string' && this.sent) {
+      throw new Error('Stream file cannot be re-sent, please use file path');
+    }
+
+    if (typeof file === 'string') {
+      (this as any).fileSize = (await stat(file)).size;
+    }
+
+    // hooks may refresh token, sign or change data
+    const prepared: HookRequest = {
+      url: this.options.url,
+      method: this.options.method || DEFAULT_METHOD,
+      headers: { ...this.options.headers },
+      data: { ...this.options.data },
+    };
+
+    await this.hook('beforeRequest', prepared);
+    if (session !== this.session) return ;
+
+    const source = typeof file === 'string' ? fs.createReadStream(file) : file;
+    this.sent = true;
+
+    const boundary = `----zoupdown${Date.now().toString(16)}${Math.random().toString(16).slice(2)}`;
+    const head = this.options.raw ? Buffer.alloc(0) : Buffer.from(this.multipartHead(boundary, prepared.data));
+    const tail = this.options.raw ? Buffer.alloc(0) : Buffer.from(`\r\n--${boundary}--\r\n`);
+
+    const headers: Record<string, string | number> = {
+      'Content-Type': this.options.raw ? 'application/octet-stream' : `multipart/form-data; boundary=${boundary}`,
+      ...prepared.headers,
+    };
+
+    if (this.fileSize) {
+      headers['Content-Length'] = head.length + this.fileSize + tail.length;
+    }
+
+    const target = new URL(prepared.url);
+    const client = target.protocol === 'https:' ? https : http;
+    const request = this.request = client.request(target, {
+      method: prepared.method,
+      headers,
+    });
+
+    if (this.options.timeout) {
+      request.setTimeout(this.options.timeout, () => {
+        request.destroy(Object.assign(new Error('Timeout'), { timeout: true }));
+      });
+    }
+
+    const response = this.receive(request);
+    // avoid unhandled rejection before awaited
+    response.catch(() => {});
+
+    let loaded = 0;
+
+    await this.write(request, head);
+    for await (const chunk of source as AsyncIterable<Buffer>) {
+      await this.consume(chunk.length);
+      if (session !== this.session) return ;
+
+      await this.write(request, chunk);
+
+      loaded += chunk.length;
+      this.setProgress(this.fileSize ? Math.min(loaded / this.fileSize, 1) : 0);
+      this.emit('progress');
+    }
+    await this.write(request, tail);
+    request.end();
+
+    const result = await response;
+    if (session !== this.session) return ;
+
+    // hooks may validate or transform
+    await this.hook('afterResponse', result);
+    if (session !== this.session) return ;
+
+    (this as any).response = result;
+
+    if (result.status >= 200 && result.status < 400) {
+      return this.emit('complete');
+    }
+
+    // unhealth 400+ 500+
+    const error = new Error(`[${result.status}] ${result.statusText}`) as any;
+    error.status = result.status;
+    error.response = result;
+    throw error;
+  }
+
+  private multipartHead(boundary: string, data: Record<string, string>) {
+    const field = this.options.field || 'file';
+    let head = '';
+
+    for (const key in data) {
+      head += `--${boundary}\r\nContent-Disposition: form-data; name="${escape(key)}"\r\n\r\n${data[key]}\r\n`;
+    }
+
+    head += `--${boundary}\r\nContent-Disposition: form-data; name="${escape(field)}"; filename="${escape(this.filename)}"\r\n`;
+    head += 'Content-Type: application/octet-stream\r\n\r\n';
+
+    return head;
+  }
+
+  // write with backpressure, reject when request failed
+  private async write(request: http.ClientRequest, chunk: Buffer) {
+    if (!chunk.length) return ;
+
+    if (request.write(chunk)) return ;
+
+    return new Promise<void>((resolve, reject) => {
+      const done = (error?: Error) => {
+        request.removeListener('drain', done);
+        request.removeListener('error', done);
+        request.removeListener('close', closed);
+
+        return error ? reject(error) : resolve();
+      };
+
+      const closed = () => done(new Error('Connection Closed'));
+
+      request.once('drain', done);
+      request.once('error', done);
+      request.once('close', closed);
+    });
+  }
+
+  private async receive(request: http.ClientRequest) {
+    return new Promise<UploadResponse>((resolve, reject) => {
+      request.on('error', reject);
+
+      request.on('response', (response: http.IncomingMessage) => {
+        const chunks: Buffer[] = [];
+
+        response.on('data', (chunk) => chunks.push(chunk));
+        response.on('error', reject);
+        response.on('end', () => {
+          const headers: Record<string, string> = {};
+          for (const key in response.headers) {
+            const value = response.headers[key];
+            headers[key] = Array.isArray(value) ? value.join(',') : `${value}`;
+          }
+
+          resolve({
+            status: response.statusCode || 0,
+            statusText: response.statusMessage || '',
+            headers,
+            body: Buffer.concat(chunks).toString('utf8'),
+          });
+        });
+      });
+    });
+  }
+
+  public abort() {
+    this.session += 1;
+
+    if (this.request) {
+      this.request.destroy();
+      this.request = null;
+    }
+
+    this.emit('cancel');
+  }
+
+  public get progressHuman() {
+    return this.progress === 0 ? '-' : `${(this.progress * 100).toFixed(2)}%`;
+  }
+
+  public get speedHuman() {
+    return this.speed === 0 ? '-' : `${humanFileSize(this.speed.toFixed(2), true)}/s`;
+  }
+}
+
+// register for Master.export / Master.import
+registry.register('upload-node', NodeUploadWorker);
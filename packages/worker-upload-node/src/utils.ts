@@ -0,0 +1,43 @@
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+
+export async function md5(path: string) {
+  return new Promise<string>((resolve, reject) => {
+    const hash = crypto.createHash('md5');
+
+    fs.createReadStream(path)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+export async function stat(path: string) {
+  return new Promise<fs.Stats>((resolve, reject) => {
+    fs.stat(path, (error, stats) => {
+      if (error) return reject(error);
+
+      return resolve(stats);
+    });
+  });
+}
+
+export function escape(value: string) {
+  return value.replace(/"/g, '%22').replace(/\r|\n/g, ' ');
+}
+
+export function humanFileSize(bytes, si) {
+  var thresh = si ? 1000 : 1024;
+  if(Math.abs(bytes) < thresh) {
+      return bytes + ' B';
+  }
+  var units = si
+      ? ['kB','MB','GB','TB','PB','EB','ZB','YB']
+      : ['KiB','MiB','GiB','TiB','PiB','EiB','ZiB','YiB'];
+  var u = -1;
+  do {
+      bytes /= thresh;
+      ++u;
+  } while(Math.abs(bytes) >= thresh && u < units.length - 1);
+  return bytes.toFixed(1)+' '+units[u];
+}
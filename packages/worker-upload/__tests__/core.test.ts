@@ -1,5 +1,1082 @@
+import { Master, Worker, STATUS } from '@zoupdown/core';
+import { MockServer, VirtualClock } from '@zoupdown/testing';
+
+import {
+  UploadWorker, S3UploadWorker, SignRequest, IHasher, HashOptions, WebWorkerHasher, createDigest,
+  UploadTransport, UploadRequest, FetchTransport, HasherPool, MainThreadHasher,
+} from '../src';
+import { ChunkUploader } from '../src/chunk';
+import { request, humanFileSize, RequestOptions } from '../src/utils';
+
+interface Sent {
+  method: string;
+  url: string;
+  body: any;
+}
+
+// minimal XMLHttpRequest stand-in, respond by handler
+function mockXHR(handler: (sent: Sent) => [number, string]) {
+  const sent: Sent[] = [];
+
+  class FakeXMLHttpRequest {
+    public readyState = 0;
+    public status = 0;
+    public statusText = '';
+    public responseText = '';
+    public timeout = 0;
+    public withCredentials = false;
+    public upload = { addEventListener: (event: string, cb: Function) => this.on(`upload:${event}`, cb) };
+
+    private method = '';
+    private url = '';
+    private aborted = false;
+    private listeners: Record<string, Function[]> = {};
+
+    public addEventListener(event: string, cb: Function) {
+      this.on(event, cb);
+    }
+
+    public open(method: string, url: string) {
+      this.method = method;
+      this.url = url;
+    }
+
+    public setRequestHeader() {}
+
+    public getAllResponseHeaders() {
+      return 'content-type: application/json';
+    }
+
+    public send(body: any) {
+      const request = { method: this.method, url: this.url, body };
+      sent.push(request);
+
+      setTimeout(() => {
+        if (this.aborted) return ;
+
+        [this.status, this.responseText] = handler(request);
+        this.readyState = 4;
+        this.fire('upload:progress', { loaded: 1, total: 1 });
+        this.fire('load', {});
+      }, 0);
+    }
+
+    public abort() {
+      this.aborted = true;
+      this.fire('abort', {});
+    }
+
+    private on(event: string, cb: Function) {
+      (this.listeners[event] = this.listeners[event] || []).push(cb);
+    }
+
+    private fire(event: string, e: any) {
+      (this.listeners[event] || []).forEach(cb => cb(e));
+    }
+  }
+
+  (global as any).XMLHttpRequest = FakeXMLHttpRequest;
+
+  return sent;
+}
+
+// jsdom has no fetch Response
+class FakeResponse {
+  public readonly status: number;
+  public bodyUsed = false;
+
+  constructor(public readonly body: string, private readonly init: { status: number }) {
+    this.status = init.status;
+  }
+
+  public async text() {
+    this.bodyUsed = true;
+    return this.body;
+  }
+
+  public clone() {
+    if (this.bodyUsed) {
+      throw new TypeError('Response body is already used');
+    }
+
+    return new FakeResponse(this.body, this.init);
+  }
+}
+
+(global as any).Response = (global as any).Response || FakeResponse;
+(global as any).Headers = (global as any).Headers || Object;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const finished = (worker: Worker) => new Promise(resolve => {
+  worker.on('finish', () => resolve());
+});
+
 describe('@zoupdown/worker-upload', () => {
   it('works', () => {
     expect(true).toEqual(true);
   });
-})
\ No newline at end of file
+
+  describe('chunk', () => {
+    const file = new File(['0123456789'], 'digits.txt');
+
+    it('skip uploaded chunks, and retry failed chunk', async () => {
+      let failed = false;
+      const sent = mockXHR(({ method, body }) => {
+        if (method === 'GET') return [200, '{"uploaded":[0,2]}'];
+        if (body.get('chunkIndex') === '3' && !failed) {
+          failed = true;
+          return [502, ''];
+        }
+
+        return [200, '{}'];
+      });
+
+      const progress: number[] = [];
+      const uploader = new ChunkUploader({
+        file,
+        url: '/upload',
+        method: 'POST',
+        chunk: { size: 3, parallel: 2, retryDelay: 0, statusUrl: '/upload/status' },
+        onProgress: loaded => progress.push(loaded),
+      });
+
+      await uploader.start();
+
+      expect(uploader.total).toEqual(4);
+      expect(sent[0].url).toEqual(`/upload/status?identifier=${encodeURIComponent(uploader.identifier)}&filename=digits.txt&totalChunks=4`);
+      expect(sent.slice(1).map(e => e.body.get('chunkIndex'))).toEqual(['1', '3', '3']);
+      expect(progress[0]).toEqual(6);
+      expect(progress[progress.length - 1]).toEqual(10);
+    });
+
+    it('fail on 4xx chunk without retry', async () => {
+      const sent = mockXHR(() => [403, '']);
+      const uploader = new ChunkUploader({
+        file,
+        url: '/upload',
+        method: 'POST',
+        chunk: { size: 10 },
+        onProgress: () => {},
+      });
+
+      await expect(uploader.start()).rejects.toMatchObject({ status: 403 });
+      expect(sent.length).toEqual(1);
+    });
+
+    it('stop other chunks when a chunk failed for good', async () => {
+      const sent = mockXHR(({ body }) => body.get('chunkIndex') === '0' ? [400, ''] : [200, '{}']);
+      const worker = new UploadWorker({ url: '/upload', file: new File(['0123456789'.repeat(10)], 'a.txt'), chunk: { size: 10, parallel: 2 } });
+
+      await worker.pending();
+      await worker.run();
+      await finished(worker);
+
+      const requests = sent.length;
+      let progress = 0;
+      worker.on('progress', () => progress += 1);
+      await sleep(50);
+
+      expect(worker.status).toEqual(STATUS.ERROR);
+      expect(requests).toEqual(2);
+      expect(sent.length).toEqual(requests);
+      expect(progress).toEqual(0);
+    });
+
+    it('merge chunks when all uploaded', async () => {
+      const sent = mockXHR(({ url }) => [200, url === '/merge' ? '{"url":"/files/digits.txt"}' : '{}']);
+      const uploader = new ChunkUploader({
+        file,
+        url: '/upload',
+        method: 'POST',
+        chunk: { size: 5, mergeUrl: '/merge' },
+        onProgress: () => {},
+      });
+
+      const result = await uploader.start();
+
+      expect(result!.body).toEqual('{"url":"/files/digits.txt"}');
+      expect(sent.map(e => e.url)).toEqual(['/upload', '/upload', '/merge']);
+      expect(sent[2].body.get('totalChunks')).toEqual('2');
+    });
+
+    it('wait for retry delay by clock', async () => {
+      const clock = new VirtualClock().install();
+      let failed = false;
+      const sent = mockXHR(() => {
+        if (failed) return [200, '{}'];
+
+        failed = true;
+        return [502, ''];
+      });
+
+      try {
+        const uploader = new ChunkUploader({
+          file,
+          url: '/upload',
+          method: 'POST',
+          chunk: { size: 10, retryDelay: 1000 },
+          onProgress: () => {},
+        });
+
+        const uploading = uploader.start();
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        await clock.tick(999);
+        expect(sent.length).toEqual(1);
+
+        await clock.tick(1);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(sent.length).toEqual(2);
+
+        await uploading;
+      } finally {
+        clock.uninstall();
+      }
+    });
+
+    it('start from scratch after cancelled while paused', async () => {
+      const sent = mockXHR(() => [200, '{}']);
+      const worker = new UploadWorker({ url: '/upload', file, chunk: { size: 3, parallel: 1 }, dedup: false });
+
+      // pause once the first chunk uploaded
+      const paused = new Promise(resolve => {
+        worker.on('progress', function pause() {
+          if (worker.progress >= 0.3) {
+            worker.off('progress', pause);
+            resolve(worker.pause());
+          }
+        });
+      });
+
+      await worker.pending();
+      await worker.run();
+      await paused;
+      await worker.cancel();
+
+      const before = sent.length;
+      await worker.pending();
+      await worker.run();
+      await finished(worker);
+
+      expect(worker.status).toEqual(STATUS.COMPLETE);
+      expect(sent.slice(before).map(e => e.body.get('chunkIndex'))).toEqual(['0', '1', '2', '3']);
+    });
+
+    it('keep uploaded chunks for retry after timeout', async () => {
+      const sent = mockXHR(() => [200, '{}']);
+      const worker = new UploadWorker({ url: '/upload', file, chunk: { size: 3, parallel: 1 } });
+
+      // expire once the first chunk uploaded
+      const expired = new Promise(resolve => {
+        worker.on('progress', function expire() {
+          if (worker.progress >= 0.3) {
+            worker.off('progress', expire);
+            resolve(worker.expire());
+          }
+        });
+      });
+
+      await worker.pending();
+      await worker.run();
+      await expired;
+      expect(worker.status).toEqual(STATUS.TIMEOUT);
+
+      const before = sent.length;
+      await worker.retry();
+      await worker.run();
+      await finished(worker);
+
+      expect(worker.status).toEqual(STATUS.COMPLETE);
+      expect(sent.slice(before).map(e => e.body.get('chunkIndex'))).toEqual(['1', '2', '3']);
+    });
+  });
+
+  describe('instant', () => {
+    it('complete without transfer if server has the file', async () => {
+      const sent = mockXHR(({ url }) => url === '/check' ? [200, '{"exists":true,"url":"/files/digits.txt"}'] : [200, '{}']);
+      const worker = new UploadWorker({
+        url: '/upload',
+        file: new File(['0123456789'], 'digits.txt'),
+        instant: { url: '/check' },
+      });
+
+      const hashing: number[] = [];
+      worker.on('hash:progress', (error, w, progress) => hashing.push(progress));
+
+      await worker.pending();
+      await worker.run();
+      await finished(worker);
+
+      expect(hashing).toEqual([1]);
+      expect(worker.status).toEqual(STATUS.COMPLETE);
+      expect(worker.instant).toBe(true);
+      expect(worker.progress).toEqual(1);
+      expect(sent.length).toEqual(1);
+      expect(sent[0].body.get('md5')).toEqual('781e5e245d69b566979b86e28d23f2c7');
+      expect(sent[0].body.get('size')).toEqual('10');
+    });
+
+    it('upload if server does not have the file', async () => {
+      const sent = mockXHR(({ url }) => url === '/check' ? [404, ''] : [200, '{}']);
+      const worker = new UploadWorker({
+        url: '/upload',
+        file: new File(['0123456789'], 'digits.txt'),
+        instant: { url: '/check' },
+      });
+
+      await worker.pending();
+      await worker.run();
+      await finished(worker);
+
+      expect(worker.status).toEqual(STATUS.COMPLETE);
+      expect(worker.instant).toBe(false);
+      expect(sent.map(e => e.url)).toEqual(['/check', '/upload']);
+    });
+
+    it('upload as usual if the file cannot be hashed', async () => {
+      const sent = mockXHR(() => [200, '{"exists":true}']);
+      const hasher: IHasher = { hash: () => Promise.reject(new Error('NotReadableError')) };
+      const worker = new UploadWorker({
+        url: '/upload',
+        file: new File(['0123456789'], 'digits.txt'),
+        instant: { url: '/check' },
+        hash: { hasher },
+      });
+
+      await worker.pending();
+      await worker.run();
+      await finished(worker);
+
+      expect(worker.status).toEqual(STATUS.COMPLETE);
+      expect(worker.instant).toBe(false);
+      expect(sent.map(e => e.url)).toEqual(['/upload']);
+    });
+
+    it('upload the same file added twice only once', async () => {
+      const sent = mockXHR(() => [200, '{}']);
+      const master = new Master({ concurrency: 2 });
+      const a = await master.create(UploadWorker, { url: '/upload', file: new File(['0123456789'], 'a.txt'), dedup: true }) as UploadWorker;
+      const b = await master.create(UploadWorker, { url: '/upload', file: new File(['0123456789'], 'b.txt'), dedup: true }) as UploadWorker;
+
+      // body of the first one read before the duplicate completes
+      const bodies: string[] = [];
+      master.on('complete', (error, worker) => {
+        (worker as UploadWorker).response!.text().then(body => bodies.push(body));
+      });
+
+      await master.startup();
+      await master.executeAll();
+      await Promise.all([finished(a), finished(b)]);
+      await sleep(0);
+
+      expect([a.status, b.status]).toEqual([STATUS.COMPLETE, STATUS.COMPLETE]);
+      expect(sent.length).toEqual(1);
+      expect([a.instant, b.instant].sort()).toEqual([false, true]);
+      expect(bodies).toEqual(['{}', '{}']);
+
+      await master.shutdown();
+    });
+  });
+
+  describe('hash', () => {
+    const bytes = (text: string) => new Uint8Array(Array.from(text).map(c => c.charCodeAt(0)));
+
+    it('digest by algorithms, chunk by chunk', () => {
+      const digests = ['md5', 'sha1', 'sha256', 'crc32'].map((algorithm: any) => {
+        const digest = createDigest(algorithm);
+        digest.update(bytes('a'));
+        digest.update(bytes('bc'));
+        return digest.digest();
+      });
+
+      expect(digests).toEqual([
+        '900150983cd24fb0d6963f7d28e17f72',
+        'a9993e364706816aba3e25717850c26c9cd0d89d',
+        'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+        '352441c2',
+      ]);
+    });
+
+    it('hash on main thread chunk by chunk, stopped when aborted', async () => {
+      const hasher = new MainThreadHasher();
+      const file = new File(['abc'], 'abc.txt');
+      const progress: number[] = [];
+
+      expect(await hasher.hash(file, { algorithm: 'md5', chunkSize: 1, onProgress: p => progress.push(p) })).toEqual('900150983cd24fb0d6963f7d28e17f72');
+      expect(progress).toEqual([1 / 3, 2 / 3, 1]);
+
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(hasher.hash(file, { algorithm: 'md5', signal: controller.signal })).rejects.toMatchObject({ aborted: true });
+      await expect(new WebWorkerHasher().hash(file, { algorithm: 'md5', signal: controller.signal })).rejects.toMatchObject({ aborted: true });
+    });
+
+    it('hash in web worker, terminated when aborted', async () => {
+      const terminated: string[] = [];
+
+      // answer by digest in process, as the worker script does
+      (global as any).Worker = class {
+        public onmessage: (e: any) => void;
+
+        public postMessage({ blob, algorithm }) {
+          setTimeout(() => {
+            if (blob.size === 0) return ;
+
+            const digest = createDigest(algorithm);
+            digest.update(bytes('0123456789'));
+            this.onmessage({ data: { progress: 1 } });
+            this.onmessage({ data: { hash: digest.digest() } });
+          }, 0);
+        }
+
+        public terminate() {
+          terminated.push('terminated');
+        }
+      };
+      URL.createObjectURL = URL.createObjectURL || (() => 'blob:hash');
+
+      try {
+        const hasher = new WebWorkerHasher();
+        const progress: number[] = [];
+        const hash = await hasher.hash(new File(['0123456789'], 'digits.txt'), {
+          algorithm: 'sha1',
+          onProgress: p => progress.push(p),
+        });
+
+        expect(hash).toEqual('87acec17cd9dcd20a716cc2cf67417b71c8a7016');
+        expect(progress).toEqual([1]);
+
+        const controller = new AbortController();
+        const hanging = hasher.hash(new File([], 'empty.txt'), { algorithm: 'md5', signal: controller.signal });
+        controller.abort();
+
+        await expect(hanging).rejects.toMatchObject({ aborted: true });
+        expect(terminated).toEqual(['terminated', 'terminated']);
+      } finally {
+        delete (global as any).Worker;
+      }
+    });
+
+    it('send hash named by algorithm to instant check', async () => {
+      const sent = mockXHR(() => [200, '{"exists":true}']);
+      const worker = new UploadWorker({
+        url: '/upload',
+        file: new File(['0123456789'], 'digits.txt'),
+        instant: { url: '/check' },
+        hash: { algorithm: 'sha256' },
+      });
+
+      await worker.pending();
+      await worker.run();
+      await finished(worker);
+
+      expect(sent[0].body.get('sha256')).toEqual('84d89877f0d4041efb6bf91a16f0248f2fd573e6af05c19f96bedb9f882f7882');
+      expect(worker.hash).toEqual(sent[0].body.get('sha256'));
+      expect(worker.md5).toBe(null);
+    });
+
+    it('hash by the script run in web worker', async () => {
+      const read = (blob: Blob, as: 'readAsText' | 'readAsArrayBuffer') => new Promise<any>((resolve) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result);
+        reader[as](blob);
+      });
+
+      // run the script as Web Worker does, coverage counters instrumented into it stubbed
+      const evaluate = (script: string, scope: any) => {
+        const counters = Array.from(new Set(script.match(/\bcov_\w+/g) || []));
+        const sink: any = new Proxy(() => {}, {
+          get: (target, key) => key === Symbol.toPrimitive ? () => 0 : sink,
+          apply: () => sink,
+          set: () => true,
+        });
+
+        new Function('self', ...counters, script)(scope, ...counters.map(() => sink));
+      };
+
+      const scripts: Blob[] = [];
+      const createObjectURL = URL.createObjectURL;
+      URL.createObjectURL = (blob: Blob) => {
+        scripts.push(blob);
+        return 'blob:hash';
+      };
+
+      (global as any).Worker = class {
+        public onmessage: (e: any) => void;
+
+        // global scope of worker, blob read by FileReaderSync
+        private readonly scope: any = {
+          FileReaderSync: class {
+            public readAsArrayBuffer(blob: { buffer: ArrayBuffer }) {
+              return blob.buffer;
+            }
+          },
+          postMessage: (data: any) => setTimeout(() => this.onmessage({ data }), 0),
+        };
+
+        public async postMessage({ blob, ...rest }) {
+          evaluate(await read(scripts[0], 'readAsText'), this.scope);
+
+          const buffer: ArrayBuffer = await read(blob, 'readAsArrayBuffer');
+          const file = { size: blob.size, slice: (start: number, end: number) => ({ buffer: buffer.slice(start, end) }) };
+          this.scope.onmessage({ data: { ...rest, blob: file } });
+        }
+
+        public terminate() {}
+      };
+
+      try {
+        // script is created once, load modules again
+        jest.resetModules();
+        const Hasher: typeof WebWorkerHasher = require('../src/hash').WebWorkerHasher;
+
+        const progress: number[] = [];
+        const file = new File(['0123456789'], 'digits.txt');
+
+        expect(await new Hasher().hash(file, { algorithm: 'md5', chunkSize: 4, onProgress: p => progress.push(p) }))
+          .toEqual('781e5e245d69b566979b86e28d23f2c7');
+        expect(progress).toEqual([1 / 3, 2 / 3, 1]);
+
+        expect(await new Hasher().hash(file, { algorithm: 'sha256' }))
+          .toEqual('84d89877f0d4041efb6bf91a16f0248f2fd573e6af05c19f96bedb9f882f7882');
+        expect(scripts.length).toEqual(1);
+      } finally {
+        URL.createObjectURL = createObjectURL;
+        delete (global as any).Worker;
+      }
+    });
+
+    it('hash md5 by default, in background of upload', async () => {
+      const sent = mockXHR(() => [200, '{}']);
+      const worker = new UploadWorker({ url: '/upload', file: new File(['0123456789'], 'digits.txt') });
+      const hashed = new Promise(resolve => worker.once('hash', () => resolve()));
+
+      await worker.pending();
+      await worker.run();
+      await finished(worker);
+      await hashed;
+
+      expect(sent.length).toEqual(1);
+      expect(worker.md5).toEqual('781e5e245d69b566979b86e28d23f2c7');
+      expect(worker.toJSON().md5).toEqual(worker.md5);
+    });
+
+    it('hash when run, aborted when cancelled or removed', async () => {
+      const signals: AbortSignal[] = [];
+      const hasher: IHasher = {
+        hash: (blob, options: HashOptions) => new Promise((resolve, reject) => {
+          signals.push(options.signal!);
+          options.signal!.addEventListener('abort', () => reject(Object.assign(new Error('Aborted'), { aborted: true })));
+        }),
+      };
+
+      const master = new Master({ concurrency: 2 });
+      const a = await master.create(UploadWorker, { url: '/upload', file: new File(['a'], 'a.txt'), hash: { hasher }, dedup: true }) as UploadWorker;
+      const b = await master.create(UploadWorker, { url: '/upload', file: new File(['b'], 'b.txt'), hash: { hasher }, dedup: true }) as UploadWorker;
+      expect(signals.length).toEqual(0);
+
+      const running = (worker: UploadWorker) => new Promise(resolve => worker.once('run', () => resolve()));
+      await master.startup();
+      await Promise.all([master.execute(a.id), master.execute(b.id), running(a), running(b)]);
+      expect(signals.length).toEqual(2);
+
+      // paused keeps hashing
+      await master.pause(b.id);
+      await master.cancel(a.id);
+      expect(signals.map(e => e.aborted)).toEqual([true, false]);
+
+      await master.remove(b.id);
+      expect(signals.map(e => e.aborted)).toEqual([true, true]);
+
+      // hash again for a new run
+      await Promise.all([master.execute(a.id), running(a)]);
+      expect(signals.length).toEqual(3);
+
+      await master.shutdown();
+    });
+
+    it('hash 2 files at once by default, waiting ones abortable', async () => {
+      const started: string[] = [];
+      const done: Record<string, () => void> = {};
+      const pool = new HasherPool({
+        hash: (blob: File) => new Promise((resolve) => {
+          started.push(blob.name);
+          done[blob.name] = () => resolve(blob.name);
+        }),
+      });
+
+      const controller = new AbortController();
+      const hashing = ['a', 'b', 'c', 'd'].map(name => pool.hash(new File([name], name), {
+        algorithm: 'md5',
+        signal: name === 'c' ? controller.signal : undefined,
+      }));
+
+      await sleep(0);
+      expect(started).toEqual(['a', 'b']);
+
+      controller.abort();
+      await expect(hashing[2]).rejects.toMatchObject({ aborted: true });
+
+      done.a();
+      await expect(hashing[0]).resolves.toEqual('a');
+      expect(started).toEqual(['a', 'b', 'd']);
+    });
+  });
+
+  describe('s3', () => {
+    let server: MockServer;
+    let signed: SignRequest[];
+    let completed: string[];
+    let aborted: string[];
+
+    const query = (url: string, key: string) => new RegExp(`[?&]${key}=([^&]*)`).exec(url)![1];
+
+    // presigned urls are plain in the stand-in
+    const sign = async (request: SignRequest) => {
+      signed.push(request);
+
+      const { operation, key, uploadId, partNumber } = request;
+      return {
+        create: `/bucket/${key}?uploads`,
+        upload: `/bucket/${key}?partNumber=${partNumber}&uploadId=${uploadId}`,
+        complete: `/bucket/${key}?uploadId=${uploadId}`,
+        abort: `/bucket/${key}?uploadId=${uploadId}`,
+      }[operation];
+    };
+
+    // S3 stand-in, status of part by its number and attempt
+    const s3 = (status: (partNumber: number, attempt: number) => number = () => 200, delay = 0) => {
+      const attempts: Record<number, number> = {};
+
+      server = new MockServer()
+        .on('POST', /\?uploads$/, { body: '<InitiateMultipartUploadResult><UploadId>u1</UploadId></InitiateMultipartUploadResult>' })
+        .on('PUT', /\?partNumber=/, ({ url }) => {
+          const partNumber = +query(url, 'partNumber');
+          attempts[partNumber] = (attempts[partNumber] || 0) + 1;
+
+          return { status: status(partNumber, attempts[partNumber]), headers: { ETag: `"etag-${partNumber}"` }, delay };
+        })
+        .on('POST', /\?uploadId=/, ({ body }) => {
+          completed.push(body);
+          return { body: '<CompleteMultipartUploadResult><Location>/bucket/a.txt</Location></CompleteMultipartUploadResult>' };
+        })
+        .on('DELETE', /\?uploadId=/, ({ url }) => {
+          aborted.push(query(url, 'uploadId'));
+          return { status: 204 };
+        })
+        .install();
+    };
+
+    const parts = () => server.requests.filter(e => e.method === 'PUT').map(e => +query(e.url, 'partNumber'));
+
+    beforeEach(() => {
+      signed = [];
+      completed = [];
+      aborted = [];
+    });
+
+    afterEach(() => {
+      server.uninstall();
+    });
+
+    it('upload parts in parallel with retries, then complete with ETags', async () => {
+      s3((partNumber, attempt) => partNumber === 2 && attempt === 1 ? 503 : 200);
+
+      const worker = new S3UploadWorker({
+        file: new File(['0123456789'.repeat(2) + '01234'], 'a.txt'),
+        key: 'a.txt',
+        sign,
+        partSize: 10,
+        parallel: 2,
+        retryDelay: 0,
+      });
+
+      await worker.pending();
+      await worker.run();
+      await finished(worker);
+
+      expect(worker.status).toEqual(STATUS.COMPLETE);
+      expect(worker.uploadId).toEqual('u1');
+      expect(parts().sort()).toEqual([1, 2, 2, 3]);
+      expect(server.requests.filter(e => e.method === 'PUT').map(e => e.body.size)).toEqual([10, 10, 5, 10]);
+      expect(completed).toEqual([
+        '<CompleteMultipartUpload>'
+          + '<Part><PartNumber>1</PartNumber><ETag>"etag-1"</ETag></Part>'
+          + '<Part><PartNumber>2</PartNumber><ETag>"etag-2"</ETag></Part>'
+          + '<Part><PartNumber>3</PartNumber><ETag>"etag-3"</ETag></Part>'
+          + '</CompleteMultipartUpload>',
+      ]);
+      expect(signed.map(e => e.operation)).toEqual(['create', 'upload', 'upload', 'upload', 'upload', 'complete']);
+      expect(worker.toJSON()).toMatchObject({ filename: 'a.txt', key: 'a.txt', uploadId: 'u1' });
+      expect(worker.progressHuman).toEqual('100.00%');
+    });
+
+    it('pause and resume at part level', async () => {
+      const clock = new VirtualClock().install();
+      s3(() => 200, 100);
+
+      try {
+        const master = new Master();
+        const worker = await master.create(S3UploadWorker, {
+          file: new File(['0123456789'.repeat(3)], 'a.txt'),
+          key: 'a.txt',
+          sign,
+          partSize: 10,
+          parallel: 1,
+        }) as S3UploadWorker;
+
+        await master.startup();
+        await master.execute(worker.id);
+
+        await clock.tick(150);
+        expect(parts()).toEqual([1, 2]);
+
+        await master.pause(worker.id);
+        expect(worker.progress).toBeCloseTo(1 / 3);
+
+        await master.resume(worker.id);
+        await clock.tick(200);
+
+        expect(worker.status).toEqual(STATUS.COMPLETE);
+        expect(parts()).toEqual([1, 2, 2, 3]);
+        expect(signed.filter(e => e.operation === 'create').length).toEqual(1);
+
+        await master.shutdown();
+      } finally {
+        clock.uninstall();
+      }
+    });
+
+    it('abort multipart upload when cancelled', async () => {
+      s3(() => 200, 50);
+
+      const worker = new S3UploadWorker({ file: new File(['0123456789'], 'a.txt'), key: 'a.txt', sign });
+
+      await worker.pending();
+      await worker.run();
+      await new Promise(resolve => setTimeout(resolve, 10));
+      await worker.cancel();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(worker.status).toEqual(STATUS.CANCELLED);
+      expect(aborted).toEqual(['u1']);
+      expect(completed).toEqual([]);
+      expect(worker.uploadId).toBe(null);
+    });
+
+    it('stop other parts when a part failed for good, abort when cancelled after', async () => {
+      s3(partNumber => partNumber === 1 ? 400 : 200, 10);
+
+      const worker = new S3UploadWorker({
+        file: new File(['0123456789'.repeat(5)], 'a.txt'),
+        key: 'a.txt',
+        sign,
+        partSize: 10,
+        parallel: 2,
+      });
+
+      await worker.pending();
+      await worker.run();
+      await finished(worker);
+      await sleep(50);
+
+      expect(worker.status).toEqual(STATUS.ERROR);
+      expect(parts()).toEqual([1, 2]);
+      expect(aborted).toEqual([]);
+
+      await worker.cancel();
+      await sleep(10);
+
+      expect(aborted).toEqual(['u1']);
+      expect(worker.uploadId).toBe(null);
+    });
+
+    it('abort multipart upload when removed after failed', async () => {
+      s3(() => 400);
+
+      const master = new Master();
+      const worker = await master.create(S3UploadWorker, { file: new File(['0123456789'], 'a.txt'), key: 'a.txt', sign });
+
+      await master.startup();
+      await master.execute(worker.id);
+      await finished(worker as S3UploadWorker);
+      expect(aborted).toEqual([]);
+
+      await master.remove(worker.id);
+      await sleep(10);
+
+      expect(aborted).toEqual(['u1']);
+
+      await master.shutdown();
+    });
+  });
+
+  describe('transport', () => {
+    it('reject by network, timeout, status and abort before sent', async () => {
+      const server = new MockServer()
+        .on('POST', '/down', { network: true })
+        .on('POST', '/slow', { delay: 100 })
+        .on('POST', '/missing', { status: 404, statusText: 'Not Found', body: 'gone' })
+        .install();
+
+      try {
+        const send = (url: string, options: Partial<RequestOptions> = {}) => request({ method: 'POST', url, timeout: 50, ...options });
+
+        await expect(send('/down').response).rejects.toMatchObject({ network: true });
+        await expect(send('/slow').response).rejects.toMatchObject({ timeout: true });
+        await expect(send('/missing').response).rejects.toMatchObject({ status: 404, result: { body: 'gone' } });
+
+        // aborted while hooks run, never sent
+        let prepared: () => void = () => {};
+        const sending = send('/slow', {
+          hooks: {
+            beforeRequest: () => new Promise(resolve => prepared = resolve),
+          },
+        });
+
+        sending.transport.abort();
+        prepared();
+
+        await expect(sending.response).rejects.toMatchObject({ aborted: true });
+        expect(server.requests.map(e => e.url)).toEqual(['/down', '/slow', '/missing']);
+      } finally {
+        server.uninstall();
+      }
+    });
+
+    it('cancel whole file upload in flight', async () => {
+      const server = new MockServer().on('POST', '/upload', { delay: 1000 }).install();
+
+      try {
+        const worker = new UploadWorker({ url: '/upload', file: new File(['0123456789'], 'digits.txt') });
+        expect([worker.progressHuman, worker.speedHuman]).toEqual(['-', '-']);
+
+        await worker.pending();
+        await worker.run();
+        await worker.cancel();
+
+        expect(worker.status).toEqual(STATUS.CANCELLED);
+        expect(worker.toJSON()).toMatchObject({ filename: 'digits.txt', status: STATUS.CANCELLED, hash: null });
+        expect([humanFileSize(500, true), humanFileSize(1536, false)]).toEqual(['500 B', '1.5 KiB']);
+      } finally {
+        server.uninstall();
+      }
+    });
+
+    it('cancel failed whole file upload back in queue', async () => {
+      const server = new MockServer().on('POST', '/upload', { status: 500 }).install();
+
+      try {
+        const worker = new UploadWorker({ url: '/upload', file: new File(['0123456789'], 'digits.txt') });
+
+        await worker.pending();
+        await worker.run();
+        await finished(worker);
+        expect(worker.status).toEqual(STATUS.ERROR);
+
+        await worker.retry();
+        await worker.cancel();
+
+        expect(worker.status).toEqual(STATUS.CANCELLED);
+      } finally {
+        server.uninstall();
+      }
+    });
+
+    it('send by custom transport without subclassing', async () => {
+      const sent: UploadRequest[] = [];
+      const transport: UploadTransport = {
+        send: async (request) => {
+          sent.push(request);
+          request.onProgress!(10, 10);
+
+          return { status: 201, statusText: 'Created', headers: { 'content-type': 'application/json' }, body: '{}' };
+        },
+        abort: () => {},
+      };
+
+      const worker = new UploadWorker({
+        url: '/upload',
+        file: new File(['0123456789'], 'digits.txt'),
+        data: { album: 'travel' },
+        dedup: false,
+        transport: () => transport,
+      });
+
+      await worker.pending();
+      await worker.run();
+      await finished(worker);
+
+      expect(worker.status).toEqual(STATUS.COMPLETE);
+      expect(worker.progress).toEqual(1);
+      expect(worker.response!.status).toEqual(201);
+      expect(sent.map(e => [e.method, e.url])).toEqual([['POST', '/upload']]);
+      expect(sent[0].body.get('album')).toEqual('travel');
+    });
+
+    it('upload whole file by fetch, progress reported when done', async () => {
+      const fetch = (global as any).fetch;
+      const sent: any[] = [];
+
+      (global as any).fetch = async (url: string, init: RequestInit) => {
+        sent.push(init.body);
+        return { status: 200, statusText: 'OK', headers: new Map(), text: async () => '{}' };
+      };
+
+      try {
+        const worker = new UploadWorker({
+          url: '/upload',
+          file: new File(['0123456789'], 'digits.txt'),
+          transport: () => new FetchTransport(),
+        });
+
+        await worker.pending();
+        await worker.run();
+        await finished(worker);
+
+        expect(worker.status).toEqual(STATUS.COMPLETE);
+        expect(worker.progress).toEqual(1);
+        expect(sent[0].get('file').name).toEqual('digits.txt');
+      } finally {
+        (global as any).fetch = fetch;
+      }
+    });
+
+    it('stream throttled whole file by fetch, paced by bandwidth', async () => {
+      const web = require('stream/web');
+      const buffer = require('buffer');
+
+      // request streams supported, as Chrome over HTTP/2
+      const globals = {
+        Blob: buffer.Blob,
+        File: buffer.File,
+        ReadableStream: web.ReadableStream,
+        TransformStream: web.TransformStream,
+        Request: class {
+          public readonly headers = new Map();
+          public readonly duplex: string;
+
+          constructor(url: string, init: any) {
+            this.duplex = init.duplex;
+          }
+        },
+        FormData: class {
+          private entries: [string, any][] = [];
+
+          public append(key: string, value: any) {
+            this.entries.push([key, value]);
+          }
+
+          public forEach(cb: (value: any, key: string) => void) {
+            this.entries.forEach(([key, value]) => cb(value, key));
+          }
+        },
+        fetch: async (url: string, init: any) => {
+          const chunks: Uint8Array[] = [];
+          for await (const chunk of init.body) chunks.push(chunk);
+
+          sent.push({ init, body: Buffer.concat(chunks).toString() });
+          return { status: 200, statusText: 'OK', headers: new Map(), text: async () => '{}' };
+        },
+      } as any;
+      const saved = Object.keys(globals).reduce((all, key) => ({ ...all, [key]: (global as any)[key] }), {} as any);
+      const sent: any[] = [];
+      const consumed: number[] = [];
+
+      Object.assign(global, globals);
+
+      try {
+        // support of request streams is detected once, load modules again
+        jest.resetModules();
+        const Upload: typeof UploadWorker = require('../src').UploadWorker;
+
+        const worker = new Upload({ url: '/upload', file: new File(['0123456789'], 'digits.txt') });
+        worker.setThrottle({ rate: 1, setRate: () => {}, consume: async bytes => { consumed.push(bytes); } });
+
+        await worker.pending();
+        await worker.run();
+        await finished(worker);
+
+        expect(worker.status).toEqual(STATUS.COMPLETE);
+        expect(worker.progress).toEqual(1);
+        expect(sent[0].init.duplex).toEqual('half');
+        expect(sent[0].init.headers['Content-Type']).toMatch(/^multipart\/form-data; boundary=/);
+        expect(sent[0].body).toContain('filename="digits.txt"');
+        expect(sent[0].body).toContain('0123456789');
+        expect(consumed.reduce((a, b) => a + b, 0)).toEqual(Buffer.byteLength(sent[0].body));
+      } finally {
+        Object.assign(global, saved);
+      }
+    });
+
+    it('send by fetch, with status, headers, abort and timeout', async () => {
+      const fetch = (global as any).fetch;
+
+      (global as any).fetch = (url: string, init: RequestInit) => new Promise((resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(new Error('The operation was aborted')));
+
+        if (url === '/slow') return ;
+
+        resolve({
+          status: 503,
+          statusText: 'Service Unavailable',
+          headers: new Map([['retry-after', '1']]),
+          text: async () => `${init.method} ${init.body}`,
+        });
+      });
+
+      try {
+        const progress: number[] = [];
+        const result = await new FetchTransport().send({
+          method: 'PUT',
+          url: '/upload',
+          headers: {},
+          body: 'hello',
+          onProgress: loaded => progress.push(loaded),
+        });
+
+        expect(result).toEqual({ status: 503, statusText: 'Service Unavailable', headers: { 'retry-after': '1' }, body: 'PUT hello' });
+
+        await expect(new FetchTransport().send({ method: 'GET', url: '/slow', headers: {}, timeout: 10 }))
+          .rejects.toMatchObject({ timeout: true });
+
+        const transport = new FetchTransport();
+        const sending = transport.send({ method: 'GET', url: '/slow', headers: {} });
+        transport.abort();
+
+        await expect(sending).rejects.toMatchObject({ aborted: true });
+      } finally {
+        (global as any).fetch = fetch;
+      }
+    });
+  });
+
+  describe('hooks', () => {
+    it('mutate request before sent, and validate response', async () => {
+      const sent = mockXHR(() => [200, '{"ok":false}']);
+      const worker = new UploadWorker({ url: '/upload', file: new File(['0123456789'], 'digits.txt'), dedup: false });
+
+      worker.use({
+        beforeRequest: async (request) => {
+          request.url += '?token=refreshed';
+          request.data.album = 'travel';
+        },
+        afterResponse: (response) => {
+          if (!JSON.parse(response.body).ok) {
+            throw new Error('Rejected by server');
+          }
+        },
+      });
+
+      await worker.pending();
+      await worker.run();
+      await finished(worker);
+
+      expect(sent[0].url).toEqual('/upload?token=refreshed');
+      expect(sent[0].body.get('album')).toEqual('travel');
+      expect(worker.status).toEqual(STATUS.ERROR);
+    });
+  });
+});
@@ -0,0 +1,323 @@
+import { clock } from '@zoupdown/core';
+
+import { slice, request, isTransportError, RequestHooks } from './utils';
+import { RequestResult, UploadTransport } from './transport';
+
+export interface ChunkOptions {
+  /**
+   * Chunk size, bytes
+   * 
+   * @default 5MB
+   */
+  size?: number;
+
+  /**
+   * Chunks uploaded in parallel
+   * 
+   * @default 3
+   */
+  parallel?: number;
+
+  /**
+   * Retries of each chunk, for network error, timeout and 5xx
+   * 
+   * @default 3
+   */
+  retries?: number;
+
+  /**
+   * Delay before retry a chunk, ms
+   * 
+   * @default 1000
+   */
+  retryDelay?: number;
+
+  /**
+   * Url to query uploaded chunks, for resume after reload
+   *  GET {statusUrl}?identifier=&filename=&totalChunks=
+   *  respond JSON: { uploaded: number[] } or number[]
+   */
+  statusUrl?: string;
+
+  /**
+   * Url to merge chunks when all uploaded, its response is the final response
+   *  POST form: identifier, filename, totalChunks, totalSize
+   */
+  mergeUrl?: string;
+
+  /**
+   * Unique identifier of the file, which server saves chunks by
+   * 
+   * @default `${size}-${lastModified}-${name}`
+   */
+  identifier?: string;
+}
+
+export interface ChunkUploaderOptions {
+  file: File;
+  url: string;
+  method: string;
+  headers?: Record<string, string>;
+  data?: Record<string, string>;
+  withCredentials?: boolean;
+  timeout?: number;
+  chunk: ChunkOptions;
+  hooks?: RequestHooks;
+  transport?: () => UploadTransport;
+
+  /**
+   * Report uploaded bytes, chunks in flight included
+   */
+  onProgress(loaded: number): void;
+
+  /**
+   * Wait for bandwidth before sending chunk
+   */
+  consume?(bytes: number): Promise<void>;
+}
+
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+const sleep = (ms: number) => new Promise(resolve => clock.setTimeout(resolve, ms));
+
+/**
+ * Upload file by chunks, resumable
+ *  uploaded chunks are kept between start() calls, and merged with server status
+ */
+export class ChunkUploader {
+  public readonly size = this.options.chunk.size || DEFAULT_CHUNK_SIZE;
+  public readonly total = Math.max(Math.ceil(this.options.file.size / this.size), 1);
+  public readonly identifier = this.options.chunk.identifier
+    || `${this.options.file.size}-${this.options.file.lastModified}-${this.options.file.name}`;
+
+  private readonly uploaded = new Set<number>();
+  private readonly loading: Record<number, number> = {};
+  private readonly transports = new Set<UploadTransport>();
+
+  // increase when stop, outdated loops exit
+  private session = 0;
+
+  constructor(public readonly options: ChunkUploaderOptions) {}
+
+  public async start(): Promise<RequestResult | null> {
+    const session = ++this.session;
+    let last: RequestResult | null = null;
+
+    for (const index of await this.query()) {
+      this.uploaded.add(index);
+    }
+    this.check(session);
+    this.report();
+
+    const rest: number[] = [];
+    for (let index = 0; index < this.total; ++index) {
+      if (!this.uploaded.has(index)) rest.push(index);
+    }
+
+    const next = async () => {
+      while (rest.length) {
+        this.check(session);
+
+        const index = rest.shift()!;
+        last = await this.send(index, session);
+        this.uploaded.add(index);
+        this.report();
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: this.options.chunk.parallel || 3 }, next));
+      this.check(session);
+
+      if (this.options.chunk.mergeUrl) {
+        return await this.merge();
+      }
+    } catch (error) {
+      // failed for good, stop other chunks in flight, unless stopped or restarted already
+      if (session === this.session) {
+        this.stop();
+      }
+
+      throw error;
+    }
+
+    return last;
+  }
+
+  public stop() {
+    this.session += 1;
+
+    this.transports.forEach(transport => transport.abort());
+    this.transports.clear();
+
+    for (const index in this.loading) {
+      delete this.loading[index];
+    }
+  }
+
+  private check(session: number) {
+    if (session !== this.session) {
+      throw Object.assign(new Error('Aborted'), { aborted: true });
+    }
+  }
+
+  private report() {
+    let loaded = 0;
+
+    this.uploaded.forEach(index => {
+      loaded += this.sizeOf(index);
+    });
+
+    for (const index in this.loading) {
+      loaded += this.loading[index];
+    }
+
+    this.options.onProgress(Math.min(loaded, this.options.file.size));
+  }
+
+  private sizeOf(index: number) {
+    return Math.min(this.size, this.options.file.size - index * this.size);
+  }
+
+  private async query(): Promise<number[]> {
+    const { statusUrl } = this.options.chunk;
+    if (!statusUrl) return [];
+
+    const query = [
+      `identifier=${encodeURIComponent(this.identifier)}`,
+      `filename=${encodeURIComponent(this.options.file.name)}`,
+      `totalChunks=${this.total}`,
+    ].join('&');
+
+    let result: RequestResult;
+    try {
+      const { transport, response } = request({
+        method: 'GET',
+        url: `${statusUrl}${statusUrl.indexOf('?') === -1 ? '?' : '&'}${query}`,
+        headers: this.options.headers,
+        withCredentials: this.options.withCredentials,
+        timeout: this.options.timeout,
+        hooks: this.options.hooks,
+        transport: this.options.transport,
+      });
+
+      this.transports.add(transport);
+      result = await response;
+      this.transports.delete(transport);
+    } catch (error) {
+      if (!isTransportError(error)) throw error;
+
+      // server does not know the file, upload from scratch
+      return [];
+    }
+
+    try {
+      const body = JSON.parse(result.body);
+      const uploaded: any[] = Array.isArray(body) ? body : (body && body.uploaded) || [];
+
+      return uploaded.map(Number).filter(index => index >= 0 && index < this.total);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private async send(index: number, session: number) {
+    const retries = this.options.chunk.retries === undefined ? 3 : this.options.chunk.retries;
+    const retryDelay = this.options.chunk.retryDelay === undefined ? 1000 : this.options.chunk.retryDelay;
+
+    for (let attempt = 0; ; ++attempt) {
+      try {
+        if (this.options.consume) {
+          await this.options.consume(this.sizeOf(index));
+          this.check(session);
+        }
+
+        return await this.sendOnce(index);
+      } catch (error) {
+        delete this.loading[index];
+        this.check(session);
+
+        // 4xx or failed by hooks will not get better by retry
+        const retryable = isTransportError(error) && (!error.status || error.status >= 500);
+        if (!retryable || attempt >= retries) {
+          throw error;
+        }
+
+        await sleep(retryDelay);
+        this.check(session);
+      }
+    }
+  }
+
+  private async sendOnce(index: number) {
+    const { file } = this.options;
+    const start = index * this.size;
+    const end = Math.min(start + this.size, file.size);
+
+    const form = new FormData();
+    form.append('file', slice(file, start, end), file.name);
+
+    const { transport, response } = request({
+      method: this.options.method,
+      url: this.options.url,
+      headers: this.options.headers,
+      data: {
+        identifier: this.identifier,
+        filename: file.name,
+        chunkIndex: `${index}`,
+        chunkOffset: `${start}`,
+        chunkSize: `${end - start}`,
+        totalChunks: `${this.total}`,
+        totalSize: `${file.size}`,
+        ...this.options.data,
+      },
+      withCredentials: this.options.withCredentials,
+      timeout: this.options.timeout,
+      hooks: this.options.hooks,
+      transport: this.options.transport,
+      body: form,
+      onProgress: (loaded) => {
+        this.loading[index] = loaded;
+        this.report();
+      },
+    });
+
+    this.transports.add(transport);
+
+    try {
+      return await response;
+    } finally {
+      this.transports.delete(transport);
+      delete this.loading[index];
+    }
+  }
+
+  private async merge() {
+    const { file } = this.options;
+
+    const { transport, response } = request({
+      method: 'POST',
+      url: this.options.chunk.mergeUrl!,
+      headers: this.options.headers,
+      data: {
+        identifier: this.identifier,
+        filename: file.name,
+        totalChunks: `${this.total}`,
+        totalSize: `${file.size}`,
+        ...this.options.data,
+      },
+      withCredentials: this.options.withCredentials,
+      timeout: this.options.timeout,
+      hooks: this.options.hooks,
+      transport: this.options.transport,
+    });
+
+    this.transports.add(transport);
+
+    try {
+      return await response;
+    } finally {
+      this.transports.delete(transport);
+    }
+  }
+}
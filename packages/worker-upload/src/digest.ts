@@ -0,0 +1,205 @@
+export type HashAlgorithm = 'md5' | 'sha1' | 'sha256' | 'crc32';
+
+export interface Digest {
+  update(bytes: Uint8Array): void;
+
+  /**
+   * hex digest
+   */
+  digest(): string;
+}
+
+/**
+ * Incremental digest, file is hashed chunk by chunk
+ *  self-contained, no outer reference, so it could be sent to Web Worker as source
+ *
+ * @param algorithm algorithm
+ */
+export function createDigest(algorithm: HashAlgorithm): Digest {
+  const hex = (word: number) => (word >>> 0).toString(16).padStart(8, '0');
+
+  if (algorithm === 'crc32') {
+    const table = new Int32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      table[n] = c;
+    }
+
+    let crc = -1;
+    return {
+      update(bytes) {
+        for (let i = 0; i < bytes.length; i++) {
+          crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+        }
+      },
+      digest: () => hex(crc ^ -1),
+    };
+  }
+
+  if (!['md5', 'sha1', 'sha256'].includes(algorithm)) {
+    throw new Error(`Unknown hash algorithm: ${algorithm}`);
+  }
+
+  const name = algorithm as 'md5' | 'sha1' | 'sha256';
+
+  const rotl = (x: number, n: number) => (x << n) | (x >>> (32 - n));
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+  // md5 is little endian, sha is big endian
+  const little = name === 'md5';
+  const block = new Uint8Array(64);
+  const view = new DataView(block.buffer);
+  const w = new Uint32Array(name === 'md5' ? 16 : name === 'sha1' ? 80 : 64);
+  let used = 0;
+  let length = 0;
+
+  const state = {
+    md5: [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476],
+    sha1: [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0],
+    sha256: [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19],
+  }[name];
+
+  const MD5_K = Array.from({ length: 64 }, (_, i) => (Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0);
+  const MD5_S = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+  const SHA256_K = [
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+  ];
+
+  const md5 = () => {
+    let [a, b, c, d] = state;
+
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+
+      const t = d;
+      d = c;
+      c = b;
+      b = (b + rotl((a + f + MD5_K[i] + w[g]) | 0, MD5_S[(i >> 4) * 4 + i % 4])) | 0;
+      a = t;
+    }
+
+    [a, b, c, d].forEach((v, i) => state[i] = (state[i] + v) | 0);
+  };
+
+  const sha1 = () => {
+    for (let i = 16; i < 80; i++) {
+      w[i] = rotl(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1);
+    }
+
+    let [a, b, c, d, e] = state;
+
+    for (let i = 0; i < 80; i++) {
+      const f = i < 20 ? (b & c) | (~b & d)
+        : i < 40 ? b ^ c ^ d
+        : i < 60 ? (b & c) | (b & d) | (c & d)
+        : b ^ c ^ d;
+      const k = i < 20 ? 0x5a827999 : i < 40 ? 0x6ed9eba1 : i < 60 ? 0x8f1bbcdc : 0xca62c1d6;
+
+      const t = (rotl(a, 5) + f + e + k + w[i]) | 0;
+      e = d;
+      d = c;
+      c = rotl(b, 30);
+      b = a;
+      a = t;
+    }
+
+    [a, b, c, d, e].forEach((v, i) => state[i] = (state[i] + v) | 0);
+  };
+
+  const sha256 = () => {
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = state;
+
+    for (let i = 0; i < 64; i++) {
+      const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) | 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    [a, b, c, d, e, f, g, h].forEach((v, i) => state[i] = (state[i] + v) | 0);
+  };
+
+  const compress = () => {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(i * 4, little);
+    }
+
+    ({ md5, sha1, sha256 })[name]();
+  };
+
+  return {
+    update(bytes) {
+      length += bytes.length;
+
+      for (let offset = 0; offset < bytes.length;) {
+        const size = Math.min(64 - used, bytes.length - offset);
+        block.set(bytes.subarray(offset, offset + size), used);
+        used += size;
+        offset += size;
+
+        if (used === 64) {
+          compress();
+          used = 0;
+        }
+      }
+    },
+    digest() {
+      const bits = length * 8;
+
+      block[used++] = 0x80;
+      if (used > 56) {
+        block.fill(0, used);
+        compress();
+        used = 0;
+      }
+
+      block.fill(0, used, 56);
+      view.setUint32(little ? 56 : 60, bits >>> 0, little);
+      view.setUint32(little ? 60 : 56, Math.floor(bits / 0x100000000), little);
+      compress();
+
+      // md5 words are written as little endian bytes
+      const swap = (word: number) => ((word & 0xff) << 24) | ((word >>> 8 & 0xff) << 16) | ((word >>> 16 & 0xff) << 8) | (word >>> 24);
+
+      return state.map(word => hex(little ? swap(word) : word)).join('');
+    },
+  };
+}
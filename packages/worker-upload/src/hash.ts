@@ -0,0 +1,238 @@
+import { HashAlgorithm, createDigest } from './digest';
+import { slice } from './utils';
+
+export interface HashOptions {
+  algorithm: HashAlgorithm;
+
+  /**
+   * Bytes read each time
+   *
+   * @default 2MB
+   */
+  chunkSize?: number;
+
+  /**
+   * Called after each chunk, 0 ~ 1
+   */
+  onProgress?(progress: number): void;
+
+  /**
+   * Stop hashing, then reject with aborted error
+   */
+  signal?: AbortSignal;
+}
+
+export interface IHasher {
+  /**
+   * Hash blob chunk by chunk, resolve hex digest
+   *
+   * @param blob file or blob
+   * @param options hash options
+   */
+  hash(blob: Blob, options: HashOptions): Promise<string>;
+}
+
+const CHUNK_SIZE = 2097152; // 2MB
+
+const aborted = () => Object.assign(new Error('Aborted'), { aborted: true });
+
+const read = (blob: Blob) => new Promise<ArrayBuffer>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as ArrayBuffer);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(blob);
+});
+
+/**
+ * Hash on main thread, fallback where Web Worker is not available
+ *  yields between chunks, but digest still blocks for each chunk
+ */
+export class MainThreadHasher implements IHasher {
+  public async hash(blob: Blob, options: HashOptions) {
+    const { signal, onProgress } = options;
+    const chunkSize = options.chunkSize || CHUNK_SIZE;
+    const chunks = Math.max(Math.ceil(blob.size / chunkSize), 1);
+    const digest = createDigest(options.algorithm);
+
+    for (let index = 0; index < chunks; index++) {
+      const buffer = await read(slice(blob as File, index * chunkSize, Math.min((index + 1) * chunkSize, blob.size)));
+      if (signal && signal.aborted) {
+        throw aborted();
+      }
+
+      digest.update(new Uint8Array(buffer));
+
+      if (onProgress) {
+        onProgress((index + 1) / chunks);
+      }
+    }
+
+    return digest.digest();
+  }
+}
+
+// runs in Web Worker, digest source is injected as argument
+function work(create: typeof createDigest) {
+  const scope: any = self;
+
+  scope.onmessage = (e: MessageEvent) => {
+    const { blob, algorithm, chunkSize } = e.data;
+
+    try {
+      const reader = new scope.FileReaderSync();
+      const digest = create(algorithm);
+      const chunks = Math.max(Math.ceil(blob.size / chunkSize), 1);
+
+      for (let index = 0; index < chunks; index++) {
+        digest.update(new Uint8Array(reader.readAsArrayBuffer(blob.slice(index * chunkSize, (index + 1) * chunkSize))));
+        scope.postMessage({ progress: (index + 1) / chunks });
+      }
+
+      scope.postMessage({ hash: digest.digest() });
+    } catch (error) {
+      scope.postMessage({ error: error.message || String(error) });
+    }
+  };
+}
+
+let source: string | null = null;
+
+/**
+ * Hash in Web Worker, main thread is never blocked
+ *  one worker for each hash, terminated when done or aborted
+ */
+export class WebWorkerHasher implements IHasher {
+  public static get supported() {
+    return typeof Worker !== 'undefined' && typeof URL !== 'undefined' && typeof URL.createObjectURL === 'function';
+  }
+
+  public hash(blob: Blob, options: HashOptions) {
+    const { signal, onProgress } = options;
+
+    return new Promise<string>((resolve, reject) => {
+      if (signal && signal.aborted) {
+        return reject(aborted());
+      }
+
+      if (!source) {
+        source = URL.createObjectURL(new Blob([`(${work.toString()})(${createDigest.toString()})`], { type: 'text/javascript' }));
+      }
+
+      const worker = new Worker(source);
+
+      const onAbort = () => done(aborted());
+      const done = (error: Error | null, hash?: string) => {
+        worker.terminate();
+        if (signal) {
+          signal.removeEventListener('abort', onAbort);
+        }
+
+        return error ? reject(error) : resolve(hash);
+      };
+
+      if (signal) {
+        signal.addEventListener('abort', onAbort);
+      }
+
+      worker.onmessage = (e: MessageEvent) => {
+        const { progress, hash, error } = e.data;
+
+        if (error) {
+          return done(new Error(error));
+        }
+
+        if (hash !== undefined) {
+          return done(null, hash);
+        }
+
+        if (onProgress) {
+          onProgress(progress);
+        }
+      };
+
+      worker.onerror = (e: ErrorEvent) => done(new Error(e.message || 'Hash Worker Error'));
+
+      worker.postMessage({ blob, algorithm: options.algorithm, chunkSize: options.chunkSize || CHUNK_SIZE });
+    });
+  }
+}
+
+/**
+ * Limit files hashed at once, others wait in order
+ *  aborted while waiting, rejects without hashing
+ */
+export class HasherPool implements IHasher {
+  private running = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  /**
+   * @param hasher hasher doing the work
+   * @param concurrency files hashed at once
+   */
+  constructor(private readonly hasher: IHasher, public readonly concurrency = 2) {}
+
+  public async hash(blob: Blob, options: HashOptions) {
+    await this.acquire(options.signal);
+
+    try {
+      return await this.hasher.hash(blob, options);
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+      if (signal && signal.aborted) {
+        return reject(aborted());
+      }
+
+      if (this.running < this.concurrency) {
+        this.running += 1;
+        return resolve();
+      }
+
+      const onAbort = () => {
+        this.waiting.splice(this.waiting.indexOf(start), 1);
+        reject(aborted());
+      };
+
+      const start = () => {
+        if (signal) {
+          signal.removeEventListener('abort', onAbort);
+        }
+
+        this.running += 1;
+        resolve();
+      };
+
+      if (signal) {
+        signal.addEventListener('abort', onAbort);
+      }
+
+      this.waiting.push(start);
+    });
+  }
+
+  private release() {
+    this.running -= 1;
+
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    }
+  }
+}
+
+let shared: IHasher | null = null;
+
+/**
+ * Hasher shared by all workers, off main thread if possible, 2 files at once
+ */
+export function createHasher(): IHasher {
+  if (!shared) {
+    shared = new HasherPool(WebWorkerHasher.supported ? new WebWorkerHasher() : new MainThreadHasher());
+  }
+
+  return shared;
+}
@@ -1,6 +1,38 @@
-import { Worker } from '@zoupdown/core';
+import { Worker, WorkerEventMap, STATUS, IPool, registry } from '@zoupdown/core';
+
+import { humanFileSize, request, RequestHooks } from './utils';
+import { RequestResult, UploadTransport, FetchTransport, supportsRequestStreams } from './transport';
+import { ChunkOptions, ChunkUploader } from './chunk';
+import { InstantOptions, check } from './instant';
+import { HashAlgorithm } from './digest';
+import { IHasher, createHasher } from './hash';
+
+export * from './transport';
+export * from './chunk';
+export * from './instant';
+export * from './digest';
+export * from './hash';
+export * from './multipart';
+export * from './s3';
+
+export interface UploadWorkerEvents extends WorkerEventMap {
+  // hashing progress, 0 ~ 1
+  'hash:progress': number;
+  // hash computed
+  hash: string;
+}
+
+export interface HashSettings {
+  /**
+   * @default md5
+   */
+  algorithm?: HashAlgorithm;
 
-import { md5, humanFileSize } from './utils';
+  /**
+   * @default Web Worker if available, otherwise main thread
+   */
+  hasher?: IHasher;
+}
 
 export interface Options {
   url: string;
@@ -10,26 +42,89 @@ export interface Options {
   withCredentials?: boolean;
   timeout?: number;
   file: File;
+
+  /**
+   * Upload by chunks, resumable after pause or reload
+   */
+  chunk?: boolean | ChunkOptions;
+
+  /**
+   * Check server by hash before upload, skip the transfer if the server already has the file
+   */
+  instant?: InstantOptions;
+
+  /**
+   * How the file is hashed, for md5, instant upload and dedup
+   */
+  hash?: HashSettings;
+
+  /**
+   * Upload the same file added to the same master only once
+   *  the file is hashed before upload, opt in for batches likely to repeat files
+   * 
+   * @default false
+   */
+  dedup?: boolean;
+
+  /**
+   * Factory of transport for each request, such as FetchTransport or your own
+   *  whole file throttled by master is sent by fetch where request streams supported, so it could be paced
+   *
+   * @default XMLHttpRequest if available, otherwise fetch
+   */
+  transport?: () => UploadTransport;
 }
 
 const DEFAULT_METHOD = 'POST';
 
-export class UploadWorker extends Worker<Options> {
+// wait for the worker to finish or pause
+const settle = (worker: UploadWorker) => new Promise<void>(resolve => {
+  const done = () => {
+    worker.off('finish', done).off('pause', done);
+    resolve();
+  };
+
+  worker.on('finish', done).on('pause', done);
+});
+
+export class UploadWorker extends Worker<Options, UploadWorkerEvents> {
   // delegate file
   public readonly filename = this.options.file.name;
   public readonly fileSize = this.options.file.size;
   public readonly lastModified = this.options.file.lastModified;
+  public readonly algorithm: HashAlgorithm = (this.options.hash && this.options.hash.algorithm) || 'md5';
+  // computed once run, in background unless instant or dedup waits for it
+  public readonly hash: string | null = null;
+  // same as hash, only when algorithm is md5
   public readonly md5: string | null = null;
   public readonly response: Response | null = null;
-
-  private readonly xhr: XMLHttpRequest | null;
+  // completed without transfer, by server or local duplicate
+  public readonly instant = false;
+
+  private readonly transport: UploadTransport | null = null;
+  // result of the upload, response of duplicates created from it, since the body of response can be read once
+  private result: RequestResult | null = null;
+  private chunkUploader: ChunkUploader | null = null;
+
+  private readonly hasher = (this.options.hash && this.options.hash.hasher) || createHasher();
+  // null before started or after aborted
+  private hashing: Promise<string> | null = null;
+  private hashController: AbortController | null = null;
+  // transport of instant check
+  private checker: UploadTransport | null = null;
+  // bumped by abort and suspend, stale preflight should stop
+  private flight = 0;
+  // passed preflight, duplicates should wait for it
+  private uploading = false;
 
   constructor(options: Options) {
     super(options);
 
-    md5(options.file).then(v => {
-      (this as any).md5 = v;
-    });
+    // cancelled, never needs it
+    this.on('cancel', () => this.stopHashing());
+
+    // cancelled from any status, such as paused, uploaded chunks will never be continued
+    this.on('cancel', () => this.discard());
   }
 
 
@@ -39,12 +134,17 @@ export class UploadWorker extends Worker<Options> {
       status: this.status,
       preStatus: this.prevStatus,
       progress: this.progress,
+      attempts: this.attempts,
       size: this.size,
       speed: this.speed, // === 0 ? '-' : humanFileSize(this.speed.toFixed(2), true) + '/s',
       eta: this.estimatedTimeToArrival,
       file: this.options.file,
       filename: this.filename,
       md5: this.md5,
+      hash: this.hash,
+      algorithm: this.algorithm,
+      instant: this.instant,
+      history: this.history,
     };
   }
 
@@ -55,91 +155,354 @@ export class UploadWorker extends Worker<Options> {
   public handle() {
     this.emit('run');
 
-    const xhr = (this as any).xhr = new XMLHttpRequest();
-
-    xhr.upload.addEventListener('progress', (e) => {
-      const progress = e.loaded / e.total;
-      this.setProgress(progress);
-
-      this.emit('progress');
-    }, false);
-
-    xhr.addEventListener('load', () => {
-      if (xhr.readyState === 4) {
-
-        const headers = {};
-        xhr.getAllResponseHeaders().replace(/^(.*?):[^\S\n]*([\s\S]*?)$/gm, (m, key, value) => {
-          headers[key] = headers[key] ? `${headers[key]},${value}` : value;
-          return '';
-        });
-
-        (this as any).response = new Response(xhr.responseText, {
-          status: xhr.status,
-          statusText: xhr.statusText,
-          headers: new Headers(headers),
-        });
-
-        if (xhr.status >= 200 && xhr.status < 400) {
-          // health
-          this.emit('complete');
-        } else {
-          // unhealth 400+ 500+
-          const error = new Error(`[${xhr.status}] ${xhr.statusText}`) as any;
-          error.status = xhr.status;
-          error.response = this.response;
-          this.emit('error', error);
+    // chunks uploaded already, continue directly
+    if (this.chunkUploader) {
+      return this.handleChunks();
+    }
+
+    (this as any).transport = null;
+    this.uploading = false;
+
+    const flight = ++this.flight;
+
+    this.preflight(flight)
+      .then((skipped) => {
+        // aborted or suspended
+        if (skipped || flight !== this.flight) return ;
+
+        this.uploading = true;
+
+        if (this.options.chunk) {
+          return this.handleChunks();
         }
+
+        this.handleFile();
+      })
+      .catch((error) => {
+        if (error.aborted || flight !== this.flight) return ;
+
+        this.emit('error', error);
+      });
+  }
+
+  /**
+   * Wait for hash, then complete without transfer if duplicated
+   *  resolve true if completed or stopped
+   * 
+   * @param flight current flight
+   */
+  private async preflight(flight: number) {
+    const { instant } = this.options;
+    // duplicates are only found in the same master
+    const dedup = !!this.options.dedup && !!this.pool;
+    if (!instant && !dedup) {
+      // md5 of the file for toJSON, hashed in background, upload never waits for it
+      this.digest().catch(() => {});
+      return false;
+    }
+
+    let hash: string;
+    try {
+      hash = await this.digest();
+    } catch (error) {
+      if (error.aborted) throw error;
+
+      // cannot hash, such as unreadable file, upload as usual
+      return flight !== this.flight;
+    }
+
+    // local duplicate, wait for it and share the response
+    let leader: UploadWorker | null;
+    while (dedup && flight === this.flight && (leader = this.duplicate())) {
+      if (leader.status === STATUS.COMPLETE) {
+        this.skip(leader.result);
+        return true;
       }
-    }, false);
 
-    xhr.addEventListener('error', (error) => {
-      this.emit('error', new Error('Network Error'));
-      // @TODO
-      // 1.Server Close Error
-      // 2.Client Network Error
-    }, false);
+      await settle(leader);
+    }
+
+    if (!instant || flight !== this.flight) {
+      return flight !== this.flight;
+    }
 
-    xhr.addEventListener('abort', () => {
-      this.emit('cancel');
-    }, false);
+    const result = await check({
+      file: this.options.file,
+      hash,
+      algorithm: this.algorithm,
+      headers: this.options.headers as any,
+      withCredentials: this.options.withCredentials,
+      timeout: this.options.timeout,
+      hooks: this.requestHooks,
+      transport: this.options.transport,
+      instant,
+    }, transport => {
+      this.checker = transport;
+    });
+
+    this.checker = null;
+
+    if (result && flight === this.flight) {
+      this.skip(result);
+      return true;
+    }
+
+    return flight !== this.flight;
+  }
+
+  // the same file uploading or uploaded in the same master
+  private duplicate() {
+    if (!this.pool) return null;
+
+    const duplicates = this.pool.map(worker => worker).filter((worker): worker is UploadWorker => {
+      return worker !== this
+        && worker instanceof UploadWorker
+        && worker.uploading
+        && worker.algorithm === this.algorithm
+        && worker.hash === this.hash
+        && worker.fileSize === this.fileSize
+        && [STATUS.RUNNING, STATUS.COMPLETE].includes(worker.status);
+    });
+
+    return duplicates.find(worker => worker.status === STATUS.COMPLETE) || duplicates[0] || null;
+  }
+
+  // hash of file, started by preflight once, restarted after aborted or failed
+  private digest() {
+    if (this.hashing) {
+      return this.hashing;
+    }
+
+    const controller = this.hashController = new AbortController();
+
+    this.hashing = this.hasher.hash(this.options.file, {
+      algorithm: this.algorithm,
+      signal: controller.signal,
+      onProgress: (progress) => {
+        this.emit('hash:progress', null, progress);
+      },
+    })
+      .then((hash) => {
+        this.hashController = null;
+
+        (this as any).hash = hash;
+        (this as any).md5 = this.algorithm === 'md5' ? hash : null;
+
+        this.emit('hash', null, hash);
+        return hash;
+      })
+      .catch((error) => {
+        // failed, hash again next run
+        if (this.hashController === controller) {
+          this.hashController = null;
+          this.hashing = null;
+        }
+
+        throw error;
+      });
+
+    return this.hashing;
+  }
+
+  // abort hashing in flight, a new run hashes again
+  private stopHashing() {
+    if (!this.hashController) return ;
+
+    this.hashController.abort();
+    this.hashController = null;
+    this.hashing = null;
+  }
+
+  // removed from master
+  public setPool(pool: IPool | null) {
+    if (!pool && this.pool) {
+      this.stopHashing();
+    }
+
+    super.setPool(pool);
+  }
 
-    xhr.addEventListener('timeout', () => {
-      this.emit('timeout');
-    }, false);
+  private skip(result: RequestResult | null) {
+    (this as any).instant = true;
+    this.result = result;
+    (this as any).response = result && this.createResponse(result);
 
-    // xhr.responseType = 'json';
+    this.setProgress(1);
+    this.emit('progress');
 
-    const headers = this.options.headers || {};
-    for (const key in headers) {
-			xhr.setRequestHeader(key, headers[key]);
-		}
+    this.emit('complete');
+  }
 
+  private handleFile() {
     const form = new FormData();
     form.append('file', this.options.file);
-    const data = this.options.data || {};
-    for (const key in data) {
-      form.append(key, data[key]);
+
+    const { transport, response } = request({
+      method: this.options.method || DEFAULT_METHOD,
+      url: this.options.url,
+      headers: this.options.headers as any,
+      data: this.options.data,
+      withCredentials: this.options.withCredentials,
+      timeout: this.options.timeout,
+      hooks: this.requestHooks,
+      transport: this.options.transport || this.pacedTransport(),
+      body: form,
+      onProgress: (current, total) => {
+        this.setProgress(current / total);
+
+        this.emit('progress');
+      },
+      consume: (bytes) => this.consume(bytes),
+    });
+
+    (this as any).transport = transport;
+
+    response
+      .then((result) => {
+        (this as any).transport = null;
+        this.result = result;
+        (this as any).response = this.createResponse(result);
+
+        this.emit('complete');
+      })
+      .catch((error) => {
+        // settled, cancel before next run has nothing to abort
+        (this as any).transport = null;
+
+        // abort() or suspend()
+        if (error.aborted) {
+          return this.emit('cancel');
+        }
+
+        this.fail(error);
+      });
+  }
+
+  // xhr sends body at once, throttled whole file is streamed by fetch where supported
+  private pacedTransport() {
+    if (!this.throttle || !this.throttle.rate || !supportsRequestStreams()) {
+      return undefined;
+    }
+
+    return () => new FetchTransport();
+  }
+
+  private handleChunks() {
+    if (!this.chunkUploader) {
+      this.chunkUploader = new ChunkUploader({
+        file: this.options.file,
+        url: this.options.url,
+        method: this.options.method || DEFAULT_METHOD,
+        headers: this.options.headers as any,
+        data: this.options.data,
+        withCredentials: this.options.withCredentials,
+        timeout: this.options.timeout,
+        chunk: this.options.chunk === true ? {} : this.options.chunk as ChunkOptions,
+        hooks: this.requestHooks,
+        transport: this.options.transport,
+        onProgress: (loaded) => {
+          this.setProgress(this.fileSize ? loaded / this.fileSize : 0);
+
+          this.emit('progress');
+        },
+        consume: (bytes) => this.consume(bytes),
+      });
+    }
+
+    this.chunkUploader.start()
+      .then((result) => {
+        this.result = result;
+        (this as any).response = result && this.createResponse(result);
+
+        this.emit('complete');
+      })
+      .catch((error) => {
+        // stopped by abort or suspend
+        if (error.aborted) return ;
+
+        this.fail(error);
+      });
+  }
+
+  // timeout, 400+, network error or failed by hooks
+  private fail(error: any) {
+    if (error.timeout) {
+      return this.emit('timeout');
+    }
+
+    if (error.result) {
+      (this as any).response = error.response = this.createResponse(error.result);
     }
 
-    const url = this.options.url;
-    const method = this.options.method || DEFAULT_METHOD;
+    this.emit('error', error);
+  }
 
-    // Async Request: https://developer.mozilla.org/en-US/docs/Web/API/XMLHttpRequest/Synchronous_and_Asynchronous_Requests
-    xhr.open(method, url, true);
+  private get requestHooks(): RequestHooks {
+    return {
+      beforeRequest: (request) => this.hook('beforeRequest', request),
+      afterResponse: (response) => this.hook('afterResponse', response),
+    };
+  }
 
-    xhr.withCredentials = !!this.options.withCredentials;
+  private createResponse(result: RequestResult) {
+    return new Response(result.body, {
+      status: result.status,
+      statusText: result.statusText,
+      headers: new Headers(result.headers),
+    });
+  }
 
-    if (this.options.timeout) {
-      xhr.timeout = this.options.timeout;
+  // drop uploaded chunks, a new run starts from scratch
+  private discard() {
+    if (!this.chunkUploader) return ;
+
+    this.chunkUploader.stop();
+    this.chunkUploader = null;
+  }
+
+  // stop preflight, hashing goes on
+  private stopCheck() {
+    this.flight += 1;
+
+    if (this.checker) {
+      this.checker.abort();
+      this.checker = null;
     }
+  }
+
+  protected suspend() {
+    this.stopCheck();
 
-    xhr.send(form);
+    if (this.chunkUploader) {
+      // uploaded chunks are kept
+      return this.chunkUploader.stop();
+    }
+
+    // whole file cannot continue, run from scratch
+    if (this.transport) {
+      this.transport.abort();
+    }
+
+    this.setProgress(0);
+  }
+
+  protected continue() {
+    this.handle();
   }
 
   public abort() {
+    this.stopCheck();
+
+    // uploaded chunks are dropped by 'cancel' listener, but kept for retry after timeout
+    if (this.chunkUploader) {
+      this.chunkUploader.stop();
+
+      return this.emit('cancel');
+    }
+
     // already run
-    if (this.xhr) {
-      this.xhr.abort();
+    if (this.transport) {
+      this.transport.abort();
     } else {
       // still pending
       this.emit('cancel');
@@ -154,4 +517,7 @@ export class UploadWorker extends Worker<Options> {
   public get speedHuman() {
     return this.speed === 0 ? '-' : `${humanFileSize(this.speed.toFixed(2), true)}/s`;
   }
-}
\ No newline at end of file
+}
+
+// register for Master.export / Master.import
+registry.register('upload', UploadWorker);
\ No newline at end of file
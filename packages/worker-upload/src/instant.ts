@@ -0,0 +1,82 @@
+import { request, isTransportError, RequestHooks } from './utils';
+import { RequestResult, UploadTransport } from './transport';
+import { HashAlgorithm } from './digest';
+
+export interface InstantOptions {
+  /**
+   * Url to check whether server already has the file
+   *  POST form: md5 (named by the hash algorithm, such as sha256), size, filename
+   */
+  url: string;
+
+  /**
+   * @default POST
+   */
+  method?: string;
+
+  /**
+   * Whether server already has the file, then the result is the final response
+   *
+   * @default respond JSON: { exists: true }
+   */
+  exists?(result: RequestResult): boolean;
+}
+
+export interface InstantCheckOptions {
+  file: File;
+  hash: string;
+  algorithm: HashAlgorithm;
+  headers?: Record<string, string>;
+  withCredentials?: boolean;
+  timeout?: number;
+  hooks?: RequestHooks;
+  transport?: () => UploadTransport;
+  instant: InstantOptions;
+}
+
+const exists = (result: RequestResult) => {
+  try {
+    const body = JSON.parse(result.body);
+    return !!body && body.exists === true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Ask server for the file by hash, resolve the result if exists, otherwise null
+ *  reject when aborted or failed by hooks, other failures fall back to upload
+ *
+ * @param options check options
+ * @param onRequest called with transport, for abort
+ */
+export async function check(options: InstantCheckOptions, onRequest: (transport: UploadTransport) => void) {
+  const { file, instant } = options;
+
+  try {
+    const { transport, response } = request({
+      method: instant.method || 'POST',
+      url: instant.url,
+      headers: options.headers,
+      data: {
+        [options.algorithm]: options.hash,
+        size: String(file.size),
+        filename: file.name,
+      },
+      withCredentials: options.withCredentials,
+      timeout: options.timeout,
+      hooks: options.hooks,
+      transport: options.transport,
+    });
+
+    onRequest(transport);
+    const result = await response;
+
+    return (instant.exists || exists)(result) ? result : null;
+  } catch (error) {
+    if (!isTransportError(error)) throw error;
+
+    // server cannot tell, upload as usual
+    return null;
+  }
+}
@@ -0,0 +1,339 @@
+import { clock } from '@zoupdown/core';
+
+import { slice, request, isTransportError, RequestOptions, RequestHooks } from './utils';
+import { RequestResult, UploadTransport } from './transport';
+
+export type MultipartOperation = 'create' | 'upload' | 'complete' | 'abort';
+
+export interface SignRequest {
+  operation: MultipartOperation;
+  key: string;
+  // all but create
+  uploadId?: string;
+  // upload only, from 1
+  partNumber?: number;
+}
+
+export interface SignedRequest {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Presign url of each request, usually by your server, the url carries the query of operation:
+ *  create   POST   ?uploads
+ *  upload   PUT    ?partNumber=&uploadId=
+ *  complete POST   ?uploadId=
+ *  abort    DELETE ?uploadId=
+ */
+export type Signer = (request: SignRequest) => Promise<string | SignedRequest>;
+
+export interface MultipartOptions {
+  /**
+   * Object key
+   */
+  key: string;
+
+  sign: Signer;
+
+  /**
+   * Part size, bytes, grows when parts exceed 10000
+   *
+   * @default 5MB, the minimum of S3
+   */
+  partSize?: number;
+
+  /**
+   * Parts uploaded in parallel
+   *
+   * @default 3
+   */
+  parallel?: number;
+
+  /**
+   * Retries of each part, for network error, timeout and 5xx
+   *
+   * @default 3
+   */
+  retries?: number;
+
+  /**
+   * Delay before retry a part, ms
+   *
+   * @default 1000
+   */
+  retryDelay?: number;
+
+  /**
+   * Content-Type of the object, sent when create
+   */
+  contentType?: string;
+}
+
+export interface MultipartUploaderOptions {
+  file: File;
+  multipart: MultipartOptions;
+  withCredentials?: boolean;
+  timeout?: number;
+  hooks?: RequestHooks;
+  transport?: () => UploadTransport;
+
+  /**
+   * Report uploaded bytes, parts in flight included
+   */
+  onProgress(loaded: number): void;
+
+  /**
+   * Wait for bandwidth before sending part
+   */
+  consume?(bytes: number): Promise<void>;
+}
+
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+const MAX_PARTS = 10000;
+
+const sleep = (ms: number) => new Promise(resolve => clock.setTimeout(resolve, ms));
+
+// ETag keeps its quotes
+const escapeXML = (value: string) => value.replace(/[<>&]/g, c => `&#${c.charCodeAt(0)};`);
+
+// first text of tag in xml
+const pick = (xml: string, tag: string) => {
+  const matched = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`).exec(xml);
+  return matched ? matched[1] : null;
+};
+
+// response header, case insensitive
+const header = (result: RequestResult, name: string) => {
+  const key = Object.keys(result.headers).find(e => e.toLowerCase() === name);
+  return key ? result.headers[key] : null;
+};
+
+/**
+ * S3 compatible Multipart Upload, by presigned urls
+ *  upload id and ETags of uploaded parts are kept between start() calls
+ *  servers should expose ETag header for CORS
+ */
+export class MultipartUploader {
+  public readonly partSize = Math.max(
+    this.options.multipart.partSize || MIN_PART_SIZE,
+    Math.ceil(this.options.file.size / MAX_PARTS),
+  );
+  public readonly total = Math.max(Math.ceil(this.options.file.size / this.partSize), 1);
+  public readonly uploadId: string | null = null;
+
+  // partNumber => ETag
+  private readonly etags: Record<number, string> = {};
+  private readonly loading: Record<number, number> = {};
+  private readonly transports = new Set<UploadTransport>();
+
+  // increase when stop, outdated loops exit
+  private session = 0;
+
+  constructor(public readonly options: MultipartUploaderOptions) {}
+
+  public async start(): Promise<RequestResult> {
+    const session = ++this.session;
+
+    if (!this.uploadId) {
+      const uploadId = await this.create();
+      this.check(session);
+
+      (this as any).uploadId = uploadId;
+    }
+
+    this.report();
+
+    const rest: number[] = [];
+    for (let partNumber = 1; partNumber <= this.total; ++partNumber) {
+      if (!this.etags[partNumber]) rest.push(partNumber);
+    }
+
+    const next = async () => {
+      while (rest.length) {
+        this.check(session);
+
+        const partNumber = rest.shift()!;
+        this.etags[partNumber] = await this.send(partNumber, session);
+        this.report();
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: this.options.multipart.parallel || 3 }, next));
+      this.check(session);
+
+      return await this.complete();
+    } catch (error) {
+      // failed for good, stop other parts in flight, unless stopped or restarted already
+      if (session === this.session) {
+        this.stop();
+      }
+
+      throw error;
+    }
+  }
+
+  public stop() {
+    this.session += 1;
+
+    this.transports.forEach(transport => transport.abort());
+    this.transports.clear();
+
+    for (const partNumber in this.loading) {
+      delete this.loading[partNumber];
+    }
+  }
+
+  /**
+   * Stop and abort the multipart upload, then server drops uploaded parts
+   *  failure is ignored, server lifecycle rules should clean them up
+   */
+  public async abort() {
+    this.stop();
+
+    const { uploadId } = this;
+    if (!uploadId) return ;
+
+    (this as any).uploadId = null;
+
+    try {
+      await this.call('abort', 'DELETE', { uploadId });
+    } catch (error) {
+      //
+    }
+  }
+
+  private check(session: number) {
+    if (session !== this.session) {
+      throw Object.assign(new Error('Aborted'), { aborted: true });
+    }
+  }
+
+  private report() {
+    let loaded = 0;
+
+    for (const partNumber in this.etags) {
+      loaded += this.sizeOf(+partNumber);
+    }
+
+    for (const partNumber in this.loading) {
+      loaded += this.loading[partNumber];
+    }
+
+    this.options.onProgress(Math.min(loaded, this.options.file.size));
+  }
+
+  private sizeOf(partNumber: number) {
+    return Math.min(this.partSize, this.options.file.size - (partNumber - 1) * this.partSize);
+  }
+
+  // sign and send
+  private async call(operation: MultipartOperation, method: string, sign: Partial<SignRequest>, options: Partial<RequestOptions> = {}) {
+    const signed = await this.options.multipart.sign({ operation, key: this.options.multipart.key, ...sign });
+    const { url, headers = {} } = typeof signed === 'string' ? { url: signed } : signed;
+
+    const { transport, response } = request({
+      ...options,
+      method,
+      url,
+      headers: { ...options.headers, ...headers },
+      withCredentials: this.options.withCredentials,
+      timeout: this.options.timeout,
+      hooks: this.options.hooks,
+      transport: this.options.transport,
+    });
+
+    this.transports.add(transport);
+
+    try {
+      return await response;
+    } finally {
+      this.transports.delete(transport);
+    }
+  }
+
+  private async create() {
+    const { contentType } = this.options.multipart;
+    const result = await this.call('create', 'POST', {}, {
+      headers: contentType ? { 'Content-Type': contentType } : {},
+    });
+
+    const uploadId = pick(result.body, 'UploadId');
+    if (!uploadId) {
+      throw Object.assign(new Error('Invalid InitiateMultipartUpload response, UploadId not found'), { result });
+    }
+
+    return uploadId;
+  }
+
+  private async send(partNumber: number, session: number) {
+    const retries = this.options.multipart.retries === undefined ? 3 : this.options.multipart.retries;
+    const retryDelay = this.options.multipart.retryDelay === undefined ? 1000 : this.options.multipart.retryDelay;
+
+    for (let attempt = 0; ; ++attempt) {
+      try {
+        if (this.options.consume) {
+          await this.options.consume(this.sizeOf(partNumber));
+          this.check(session);
+        }
+
+        return await this.sendOnce(partNumber);
+      } catch (error) {
+        delete this.loading[partNumber];
+        this.check(session);
+
+        // 4xx or failed by hooks will not get better by retry
+        const retryable = isTransportError(error) && (!error.status || error.status >= 500);
+        if (!retryable || attempt >= retries) {
+          throw error;
+        }
+
+        await sleep(retryDelay);
+        this.check(session);
+      }
+    }
+  }
+
+  private async sendOnce(partNumber: number) {
+    const { file } = this.options;
+    const start = (partNumber - 1) * this.partSize;
+    const end = Math.min(start + this.partSize, file.size);
+
+    try {
+      const result = await this.call('upload', 'PUT', { uploadId: this.uploadId!, partNumber }, {
+        body: slice(file, start, end),
+        onProgress: (loaded) => {
+          this.loading[partNumber] = loaded;
+          this.report();
+        },
+      });
+
+      const etag = header(result, 'etag');
+      if (!etag) {
+        throw Object.assign(new Error(`ETag of Part(${partNumber}) not found, expose it for CORS`), { result });
+      }
+
+      return etag;
+    } finally {
+      delete this.loading[partNumber];
+    }
+  }
+
+  private async complete() {
+    const parts = Array.from({ length: this.total }, (_, index) => {
+      return `<Part><PartNumber>${index + 1}</PartNumber><ETag>${escapeXML(this.etags[index + 1])}</ETag></Part>`;
+    });
+
+    const result = await this.call('complete', 'POST', { uploadId: this.uploadId! }, {
+      body: `<CompleteMultipartUpload>${parts.join('')}</CompleteMultipartUpload>`,
+    });
+
+    // S3 may respond 200 with error
+    if (/<Error>/.test(result.body)) {
+      throw Object.assign(new Error(pick(result.body, 'Message') || 'CompleteMultipartUpload failed'), { result });
+    }
+
+    return result;
+  }
+}
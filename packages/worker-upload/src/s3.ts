@@ -0,0 +1,170 @@
+import { Worker, STATUS, IPool, registry } from '@zoupdown/core';
+
+import { humanFileSize, RequestHooks } from './utils';
+import { MultipartOptions, MultipartUploader } from './multipart';
+import { UploadTransport } from './transport';
+
+export interface S3Options extends MultipartOptions {
+  file: File;
+  withCredentials?: boolean;
+  timeout?: number;
+
+  /**
+   * @default XMLHttpRequest if available, otherwise fetch
+   */
+  transport?: () => UploadTransport;
+}
+
+/**
+ * Upload to S3 compatible storage by multipart upload, objects over 5GB supported
+ *  pause keeps uploaded parts, cancel aborts the multipart upload
+ *  failed or timeout keeps them for retry, until cancelled or removed
+ */
+export class S3UploadWorker extends Worker<S3Options> {
+  public readonly filename = this.options.file.name;
+  public readonly fileSize = this.options.file.size;
+  public readonly response: Response | null = null;
+
+  private uploader: MultipartUploader | null = null;
+
+  constructor(options: S3Options) {
+    super(options);
+
+    // cancelled from any status, the parts will never be completed
+    this.on('cancel', () => this.discard());
+  }
+
+  public toJSON() {
+    return {
+      id: this.id,
+      status: this.status,
+      preStatus: this.prevStatus,
+      progress: this.progress,
+      attempts: this.attempts,
+      size: this.size,
+      speed: this.speed,
+      eta: this.estimatedTimeToArrival,
+      file: this.options.file,
+      filename: this.filename,
+      key: this.options.key,
+      uploadId: this.uploader && this.uploader.uploadId,
+      history: this.history,
+    };
+  }
+
+  public get size() {
+    return this.fileSize;
+  }
+
+  public get uploadId() {
+    return this.uploader ? this.uploader.uploadId : null;
+  }
+
+  public handle() {
+    this.emit('run');
+
+    // failed or timeout before, uploaded parts are kept for retry
+    if (!this.uploader) {
+      this.uploader = new MultipartUploader({
+        file: this.options.file,
+        multipart: this.options,
+        withCredentials: this.options.withCredentials,
+        timeout: this.options.timeout,
+        hooks: this.requestHooks,
+        transport: this.options.transport,
+        onProgress: (loaded) => {
+          this.setProgress(this.fileSize ? loaded / this.fileSize : 0);
+
+          this.emit('progress');
+        },
+        consume: (bytes) => this.consume(bytes),
+      });
+    }
+
+    this.uploader.start()
+      .then((result) => {
+        (this as any).response = new Response(result.body, {
+          status: result.status,
+          statusText: result.statusText,
+          headers: new Headers(result.headers),
+        });
+
+        this.setProgress(1);
+        this.emit('complete');
+      })
+      .catch((error) => {
+        // stopped by abort or suspend
+        if (error.aborted) return ;
+
+        if (error.timeout) {
+          return this.emit('timeout');
+        }
+
+        this.emit('error', error);
+      });
+  }
+
+  private get requestHooks(): RequestHooks {
+    return {
+      beforeRequest: (request) => this.hook('beforeRequest', request),
+      afterResponse: (response) => this.hook('afterResponse', response),
+    };
+  }
+
+  // abort multipart upload, a new run starts from scratch
+  private discard() {
+    if (!this.uploader) return ;
+
+    this.uploader.abort();
+    this.uploader = null;
+  }
+
+  public async cancel() {
+    // nothing in flight, but uploaded parts are kept for retry
+    if ([STATUS.ERROR, STATUS.TIMEOUT].includes(this.status)) {
+      this.discard();
+    }
+
+    return super.cancel();
+  }
+
+  // removed from master, the parts will never be completed
+  public setPool(pool: IPool | null) {
+    if (!pool && this.pool && this.status !== STATUS.COMPLETE) {
+      this.discard();
+    }
+
+    super.setPool(pool);
+  }
+
+  protected suspend() {
+    // uploaded parts are kept, parts in flight are sent again
+    if (this.uploader) {
+      this.uploader.stop();
+    }
+  }
+
+  protected continue() {
+    this.handle();
+  }
+
+  public abort() {
+    if (this.uploader) {
+      this.uploader.stop();
+    }
+
+    // ignored if timeout, then parts are kept for retry
+    this.emit('cancel');
+  }
+
+  public get progressHuman() {
+    return this.progress === 0 ? '-' : `${(this.progress * 100).toFixed(2)}%`;
+  }
+
+  public get speedHuman() {
+    return this.speed === 0 ? '-' : `${humanFileSize(this.speed.toFixed(2), true)}/s`;
+  }
+}
+
+// register for Master.export / Master.import
+registry.register('s3-upload', S3UploadWorker);
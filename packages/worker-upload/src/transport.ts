@@ -0,0 +1,278 @@
+import { clock } from '@zoupdown/core';
+
+export interface UploadRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: any;
+  withCredentials?: boolean;
+  timeout?: number;
+  onProgress?(loaded: number, total: number): void;
+
+  /**
+   * Wait for bandwidth before sending bytes, honored by transports sending body by stream
+   */
+  consume?(bytes: number): Promise<void>;
+}
+
+export interface RequestResult {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface UploadTransport {
+  /**
+   * Send request, resolve when response received, whatever the status
+   *  reject with network, timeout or aborted flag
+   *
+   * @param request request
+   */
+  send(request: UploadRequest): Promise<RequestResult>;
+
+  /**
+   * Abort request, send() should reject with aborted flag
+   */
+  abort(): void;
+}
+
+const fail = (message: string, extra: Record<string, any>) => Object.assign(new Error(message), extra);
+
+export function parseHeaders(raw: string) {
+  const headers: Record<string, string> = {};
+
+  raw.replace(/^(.*?):[^\S\n]*([\s\S]*?)$/gm, (m, key, value) => {
+    headers[key] = headers[key] ? `${headers[key]},${value}` : value;
+    return '';
+  });
+
+  return headers;
+}
+
+/**
+ * Browser Transport, by XMLHttpRequest, upload progress reported
+ */
+export class XHRTransport implements UploadTransport {
+  private xhr: XMLHttpRequest | null = null;
+
+  public send(request: UploadRequest) {
+    return new Promise<RequestResult>((resolve, reject) => {
+      const xhr = this.xhr = new XMLHttpRequest();
+
+      if (request.onProgress) {
+        xhr.upload.addEventListener('progress', (e) => {
+          request.onProgress!(e.loaded, e.total);
+        }, false);
+      }
+
+      xhr.addEventListener('load', () => {
+        resolve({
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers: parseHeaders(xhr.getAllResponseHeaders()),
+          body: xhr.responseText,
+        });
+      }, false);
+
+      xhr.addEventListener('error', () => reject(fail('Network Error', { network: true })), false);
+      xhr.addEventListener('abort', () => reject(fail('Aborted', { aborted: true })), false);
+      xhr.addEventListener('timeout', () => reject(fail('Timeout', { timeout: true })), false);
+
+      xhr.open(request.method, request.url, true);
+
+      for (const key in request.headers) {
+        xhr.setRequestHeader(key, request.headers[key]);
+      }
+
+      xhr.withCredentials = !!request.withCredentials;
+
+      if (request.timeout) {
+        xhr.timeout = request.timeout;
+      }
+
+      xhr.send(request.body);
+    });
+  }
+
+  public abort() {
+    if (this.xhr) {
+      this.xhr.abort();
+      this.xhr = null;
+    }
+  }
+}
+
+let streaming: boolean | null = null;
+
+/**
+ * Whether fetch could send ReadableStream as request body
+ */
+export function supportsRequestStreams() {
+  if (streaming === null) {
+    try {
+      let duplex = false;
+      const hasContentType = new Request('http://localhost', {
+        method: 'POST',
+        body: new ReadableStream(),
+        get duplex() {
+          duplex = true;
+          return 'half';
+        },
+      } as RequestInit).headers.has('Content-Type');
+
+      streaming = duplex && !hasContentType;
+    } catch (error) {
+      streaming = false;
+    }
+  }
+
+  return streaming;
+}
+
+// blob as stream, paced by consume, bytes counted when pulled
+function track(blob: Blob, request: UploadRequest) {
+  let loaded = 0;
+
+  return (blob as any).stream().pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      if (request.consume) {
+        await request.consume(chunk.byteLength);
+      }
+
+      loaded += chunk.byteLength;
+      if (request.onProgress) {
+        request.onProgress(loaded, blob.size);
+      }
+
+      controller.enqueue(chunk);
+    },
+  }));
+}
+
+// field name or filename in multipart header
+const quote = (value: string) => value.replace(/"/g, '%22').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+
+// FormData as multipart Blob, same as browsers encode it, so the file in it could be streamed
+function toMultipart(form: FormData) {
+  const boundary = `----zoupdown${Math.random().toString(16).slice(2)}`;
+  const parts: any[] = [];
+
+  form.forEach((value, key) => {
+    if (typeof value === 'string') {
+      parts.push(`--${boundary}\r\nContent-Disposition: form-data; name="${quote(key)}"\r\n\r\n${value}\r\n`);
+      return ;
+    }
+
+    parts.push(
+      `--${boundary}\r\nContent-Disposition: form-data; name="${quote(key)}"; filename="${quote(value.name)}"\r\n`,
+      `Content-Type: ${value.type || 'application/octet-stream'}\r\n\r\n`,
+      value,
+      '\r\n',
+    );
+  });
+
+  parts.push(`--${boundary}--\r\n`);
+
+  return {
+    body: new Blob(parts),
+    contentType: `multipart/form-data; boundary=${boundary}`,
+  };
+}
+
+/**
+ * Transport by fetch, works in browsers, Node.js 18+ and service workers
+ *  Blob and FormData body are streamed where request streams supported, so progress is reported while sending,
+ *  and sending is paced by consume, otherwise progress is only reported when done
+ *  browsers only stream request body over HTTP/2 or later
+ */
+export class FetchTransport implements UploadTransport {
+  private controller: AbortController | null = null;
+
+  public async send(request: UploadRequest) {
+    const controller = this.controller = new AbortController();
+    const { onProgress, consume } = request;
+    let { body, headers } = request;
+
+    const stream = (!!onProgress || !!consume) && typeof Blob !== 'undefined' && supportsRequestStreams()
+      && (body instanceof Blob || (typeof FormData !== 'undefined' && body instanceof FormData));
+
+    // encoded by ourselves, then the file is streamed as Blob
+    if (stream && body instanceof FormData) {
+      const multipart = toMultipart(body);
+
+      body = multipart.body;
+      headers = { ...headers, 'Content-Type': multipart.contentType };
+    }
+
+    const init: RequestInit & { duplex?: string } = {
+      method: request.method,
+      headers,
+      credentials: request.withCredentials ? 'include' : 'same-origin',
+      signal: controller.signal,
+      body,
+    };
+
+    if (stream) {
+      init.body = track(body, request);
+      init.duplex = 'half';
+    }
+
+    let timedOut = false;
+    const timer = request.timeout ? clock.setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, request.timeout) : null;
+
+    try {
+      const response = await fetch(request.url, init);
+      const text = await response.text();
+
+      const received: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        received[key] = value;
+      });
+
+      // size of FormData or string is unknown, report done only
+      if (onProgress && !stream) {
+        const size = body && typeof body.size === 'number' && body.size > 0 ? body.size : 1;
+        onProgress(size, size);
+      }
+
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        headers: received,
+        body: text,
+      };
+    } catch (error) {
+      if (timedOut) {
+        throw fail('Timeout', { timeout: true });
+      }
+
+      if (controller.signal.aborted) {
+        throw fail('Aborted', { aborted: true });
+      }
+
+      throw fail(error.message || 'Network Error', { network: true });
+    } finally {
+      if (timer !== null) {
+        clock.clearTimeout(timer);
+      }
+    }
+  }
+
+  public abort() {
+    if (this.controller) {
+      this.controller.abort();
+      this.controller = null;
+    }
+  }
+}
+
+/**
+ * XMLHttpRequest if available for upload progress, otherwise fetch
+ */
+export function createTransport(): UploadTransport {
+  return typeof XMLHttpRequest !== 'undefined' ? new XHRTransport() : new FetchTransport();
+}
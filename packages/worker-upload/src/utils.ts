@@ -1,39 +1,123 @@
-import * as SparkMd5 from 'spark-md5';
+import { HookRequest, HookResponse } from '@zoupdown/core';
 
-export async function md5(file: File) {
-  return new Promise((resolve, reject) => {
-    const blobSlice = File.prototype.slice || (File.prototype as any).mozSlice || (File.prototype as any).webkitSlice;
-    const chunkSize = 2097152; // 2MB
-    const chunks = Math.ceil(file.size / chunkSize);
+import { UploadTransport, RequestResult, createTransport } from './transport';
 
-    let currentChunk = 0;
-    const spark = new SparkMd5.ArrayBuffer();
-    const fileReader = new FileReader();
+export function slice(file: File, start: number, end: number): Blob {
+  const blobSlice = File.prototype.slice || (File.prototype as any).mozSlice || (File.prototype as any).webkitSlice;
 
-    fileReader.onload = (e) => {
-      spark.append((e as any).target.result);
-      currentChunk++;
+  return blobSlice.call(file, start, end);
+}
 
-      if (currentChunk < chunks) {
-        return loadNext();
-      }
+export interface RequestHooks {
+  beforeRequest?(request: HookRequest): Promise<any>;
+  afterResponse?(response: HookResponse): Promise<any>;
+}
 
-      return resolve(spark.end());
-    };
+export interface RequestOptions {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  // form fields, appended to body after hooks
+  data?: Record<string, string>;
+  body?: any;
+  withCredentials?: boolean;
+  timeout?: number;
+  hooks?: RequestHooks;
+  onProgress?(loaded: number, total: number): void;
+  consume?(bytes: number): Promise<void>;
 
-    fileReader.onerror = (e) => {
-      reject(e);
-    }
+  /**
+   * @default XMLHttpRequest if available, otherwise fetch
+   */
+  transport?: () => UploadTransport;
+}
 
-    function loadNext() {
-      const start = currentChunk * chunkSize;
-      const end = ((start + chunkSize) >= file.size) ? file.size : start + chunkSize;
+/**
+ * Failed by network, timeout or status, rather than hooks or abort
+ * 
+ * @param error error rejected by request
+ */
+export function isTransportError(error: any) {
+  return !!error && (!!error.network || !!error.timeout || error.status !== undefined);
+}
+
+function createBody(body: any, data: Record<string, string>) {
+  const keys = Object.keys(data);
+  if (!keys.length) return body;
+
+  const form = body instanceof FormData ? body : new FormData();
+  for (const key of keys) {
+    form.append(key, data[key]);
+  }
+
+  return form;
+}
 
-      fileReader.readAsArrayBuffer(blobSlice.call(file, start, end));
+/**
+ * Send request by transport, reject when network error, timeout, aborted or 400+
+ *  the error carries status and aborted flag
+ *  hooks run before sending and before judging the response
+ * 
+ * @param options request options
+ */
+export function request(options: RequestOptions) {
+  const transport = options.transport ? options.transport() : createTransport();
+  const hooks = options.hooks || {};
+
+  let sent = false;
+  let aborted = false;
+  let cancel: () => void = () => {};
+
+  // abort before sent rejects directly, such as in beforeRequest
+  const abort = transport.abort.bind(transport);
+  transport.abort = () => {
+    aborted = true;
+
+    if (!sent) {
+      return cancel();
     }
 
-    loadNext();
+    abort();
+  };
+
+  const response = new Promise<RequestResult>((resolve, reject) => {
+    cancel = () => reject(Object.assign(new Error('Aborted'), { aborted: true }));
+
+    const prepared: HookRequest = {
+      url: options.url,
+      method: options.method,
+      headers: { ...options.headers },
+      data: { ...options.data },
+    };
+
+    Promise.resolve(hooks.beforeRequest && hooks.beforeRequest(prepared))
+      .then(() => {
+        if (aborted) return ;
+
+        sent = true;
+        return transport.send({
+          method: prepared.method,
+          url: prepared.url,
+          headers: prepared.headers,
+          body: createBody(options.body, prepared.data),
+          withCredentials: options.withCredentials,
+          timeout: options.timeout,
+          onProgress: options.onProgress,
+          consume: options.consume,
+        })
+          .then(result => Promise.resolve(hooks.afterResponse && hooks.afterResponse(result)).then(() => result))
+          .then((result) => {
+            if (result.status >= 200 && result.status < 400) {
+              return resolve(result);
+            }
+
+            reject(Object.assign(new Error(`[${result.status}] ${result.statusText}`), { status: result.status, result }));
+          });
+      })
+      .catch(reject);
   });
+
+  return { transport, response };
 }
 
 export function humanFileSize(bytes, si) {